@@ -4,6 +4,25 @@ export default defineNitroConfig({
   // Cloudflare Workers preset
   preset: 'cloudflare-module',
 
+  // Routes use h3, runtime config and utils/ helpers without importing
+  // them; Nitro 3 only scans utils/ on its own
+  imports: {
+    presets: [
+      {
+        from: 'h3',
+        imports: [
+          'createError',
+          'defineEventHandler',
+          'getHeader',
+          'getQuery',
+          'getRouterParam',
+          'readBody',
+        ],
+      },
+      { from: 'nitro/runtime-config', imports: ['useRuntimeConfig'] },
+    ],
+  },
+
   // Experimental features
   experimental: {
     openAPI: true,
@@ -25,7 +44,57 @@ export default defineNitroConfig({
   runtimeConfig: {
     // Private keys (server-only)
     openaiApiKey: '',
+    // Backend behind /api/embed
+    embedding: {
+      // 'openai' (any OpenAI-compatible server), 'ollama', or 'hash'
+      // (deterministic vectors without a model, for tests)
+      provider: 'openai',
+      baseUrl: 'https://api.openai.com/v1',
+      model: 'text-embedding-3-small',
+      // Requested vector size, for models that support it (0 = model default)
+      dimensions: 0,
+      // Falls back to openaiApiKey
+      apiKey: '',
+    },
     databaseUrl: '',
+    // Name of the D1 binding backing the sync store (in-memory when absent)
+    syncDatabaseBinding: 'DB',
+    // Minimum age (ms) before tombstones acknowledged by every client are purged
+    tombstoneGcWindow: 30 * 24 * 60 * 60 * 1000,
+    // Storage limits per tenant (user or workspace); 0 disables a limit
+    tenantQuota: {
+      maxEntities: 100_000,
+      maxBytes: 512 * 1024 * 1024,
+    },
+    // Cache of computed embeddings, keyed by text and model
+    embeddingCache: {
+      enabled: true,
+      // Entries kept by the in-memory cache
+      maxEntries: 10_000,
+      // Seconds entries live in KV or D1
+      ttl: 30 * 24 * 60 * 60,
+    },
+    // Name of the KV namespace holding cached embeddings (D1, then
+    // in-memory, when absent)
+    embeddingCacheKvBinding: 'EMBEDDING_CACHE',
+    // Limits on /api/embed per client; 0 disables a limit
+    embedLimits: {
+      requestsPerMinute: 60,
+      tokensPerDay: 1_000_000,
+    },
+    // Upstream embedding price (USD per million tokens), for the usage ledger
+    embedCostPerMillionTokens: 0.02,
+    // Name of the KV namespace holding rate limit counters (D1, then
+    // in-memory, when absent)
+    rateLimitKvBinding: 'RATE_LIMIT',
+    // HMAC secret signing access tokens (set NITRO_AUTH_SECRET)
+    authSecret: '',
+    // Operator token allowed to issue API keys for any user (set NITRO_AUTH_ADMIN_TOKEN)
+    authAdminToken: '',
+    // Lifetime of access tokens, in seconds
+    accessTokenTtl: 15 * 60,
+    // Name of the D1 binding holding API keys (in-memory when absent)
+    authDatabaseBinding: 'DB',
 
     // Public keys (can be used by sync clients)
     public: {
@@ -0,0 +1,43 @@
+// Usage ledger: metered embedding requests totalled per client.
+// Query: tenantId, clientId, since and until (ISO dates or ms since epoch).
+export default defineEventHandler(async (event) => {
+  requireAdmin(event);
+  const query = getQuery(event);
+
+  const since = parseTime(query.since);
+  const until = parseTime(query.until);
+  const clients = await useUsageLedger(event).summarize({
+    tenantId: (query.tenantId as string) || undefined,
+    clientId: (query.clientId as string) || undefined,
+    since,
+    until,
+  });
+
+  return {
+    since: since ?? null,
+    until: until ?? null,
+    totals: clients.reduce(
+      (totals, client) => ({
+        requests: totals.requests + client.requests,
+        texts: totals.texts + client.texts,
+        tokens: totals.tokens + client.tokens,
+        cost: totals.cost + client.cost,
+      }),
+      { requests: 0, texts: 0, tokens: 0, cost: 0 }
+    ),
+    clients,
+  };
+});
+
+function parseTime(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+
+  const time = /^\d+$/.test(String(value)) ? Number(value) : Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    throw createError({
+      statusCode: 400,
+      message: `Invalid time: ${value}`,
+    });
+  }
+  return time;
+}
@@ -0,0 +1,28 @@
+// Revoke an API key, along with every access token issued for it
+export default defineEventHandler(async (event) => {
+  const id = getRouterParam(event, 'id');
+  const store = useApiKeyStore(event);
+  const record = id ? await store.get(id) : null;
+
+  if (!isAdminRequest(event)) {
+    const auth = await requireAuth(event);
+    if (record && record.userId !== auth.userId) {
+      throw createError({
+        statusCode: 404,
+        message: 'API key not found',
+      });
+    }
+  }
+
+  if (!record) {
+    throw createError({
+      statusCode: 404,
+      message: 'API key not found',
+    });
+  }
+
+  await store.revoke(record.id);
+  console.log(`[Auth] Revoked key ${record.id} for client ${record.clientId}`);
+
+  return { id: record.id, revoked: true };
+});
@@ -0,0 +1,19 @@
+// List the API keys of the authenticated user (or of `userId`, for the admin)
+export default defineEventHandler(async (event) => {
+  const userId = isAdminRequest(event)
+    ? (getQuery(event).userId as string)
+    : (await requireAuth(event)).userId;
+
+  if (!userId) {
+    throw createError({
+      statusCode: 400,
+      message: 'userId is required',
+    });
+  }
+
+  const keys = await useApiKeyStore(event).listForUser(userId);
+
+  return {
+    keys: keys.map(({ secretHash: _secretHash, ...key }) => key),
+  };
+});
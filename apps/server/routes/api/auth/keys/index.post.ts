@@ -0,0 +1,62 @@
+interface CreateKeyRequest {
+  userId?: string;
+  workspaceId?: string;
+  clientId?: string;
+  name?: string;
+}
+
+// Issue an API key for a device. The admin token can issue keys for any user
+// and workspace; an authenticated device can only add devices to its own user,
+// which then sync the same workspace.
+export default defineEventHandler(async (event) => {
+  const body = (await readBody<CreateKeyRequest>(event)) ?? {};
+
+  let userId: string;
+  let workspaceId: string | null = null;
+  if (isAdminRequest(event)) {
+    if (!body.userId) {
+      throw createError({
+        statusCode: 400,
+        message: 'userId is required',
+      });
+    }
+    userId = body.userId;
+    workspaceId = body.workspaceId || null;
+  } else {
+    const auth = await requireAuth(event);
+    if (body.userId && body.userId !== auth.userId) {
+      throw createError({
+        statusCode: 403,
+        message: 'Cannot issue keys for another user',
+      });
+    }
+    if (body.workspaceId) {
+      throw createError({
+        statusCode: 403,
+        message: 'Only the admin can grant workspace access',
+      });
+    }
+    userId = auth.userId;
+    workspaceId = (await useApiKeyStore(event).get(auth.keyId))?.workspaceId ?? null;
+  }
+
+  const { apiKey, record } = await issueApiKey(event, {
+    userId,
+    workspaceId,
+    clientId: body.clientId || generateClientId(),
+    name: body.name,
+  });
+
+  console.log(`[Auth] Issued key ${record.id} for client ${record.clientId}`);
+
+  // The key itself is never shown again
+  return {
+    id: record.id,
+    apiKey,
+    userId: record.userId,
+    workspaceId: record.workspaceId,
+    clientId: record.clientId,
+    name: record.name,
+    createdAt: record.createdAt,
+  };
+});
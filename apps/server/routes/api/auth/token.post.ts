@@ -0,0 +1,21 @@
+// Exchange a device API key for a short-lived access token
+export default defineEventHandler(async (event) => {
+  const auth = await requireAuth(event);
+
+  if (auth.method !== 'api-key') {
+    throw createError({
+      statusCode: 400,
+      message: 'Access tokens are issued for API keys only',
+    });
+  }
+
+  const { token, expiresAt } = await issueAccessToken(event, auth);
+
+  return {
+    token,
+    tokenType: 'Bearer',
+    expiresAt,
+    userId: auth.userId,
+    clientId: auth.clientId,
+  };
+});
@@ -1,4 +1,4 @@
-// Embedding endpoint - proxies to OpenAI
+// Embedding endpoint - proxies to the configured embedding backend
 interface EmbedRequest {
   texts: string[];
 }
@@ -6,61 +6,134 @@ interface EmbedRequest {
 interface EmbedResponse {
   embeddings: number[][];
   dimensions: number;
+  model: string; // model that actually produced the embeddings
+  cache: {
+    hits: number;   // texts served from the embedding cache
+    misses: number; // texts embedded upstream
+  };
 }
 
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
 export default defineEventHandler(async (event): Promise<EmbedResponse> => {
+  const auth = await requireAuth(event);
   const body = await readBody<EmbedRequest>(event);
   const config = useRuntimeConfig();
 
-  if (!body.texts || body.texts.length === 0) {
+  if (!body?.texts || body.texts.length === 0) {
     throw createError({
       statusCode: 400,
       message: 'texts array is required',
     });
   }
 
-  if (!config.openaiApiKey) {
+  if (body.texts.some((text) => typeof text !== 'string')) {
     throw createError({
-      statusCode: 500,
-      message: 'OpenAI API key not configured',
+      statusCode: 400,
+      message: 'texts must be strings',
     });
   }
 
-  try {
-    const response = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${config.openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-3-small',
-        input: body.texts,
-      }),
-    });
+  // Limits are per device
+  const limitKey = `${auth.tenantId}:${auth.clientId}`;
+  await enforceRateLimit(event, {
+    name: 'requests per minute',
+    key: limitKey,
+    amount: 1,
+    limit: Number(config.embedLimits.requestsPerMinute),
+    windowMs: MINUTE,
+  });
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw createError({
-        statusCode: response.status,
-        message: `OpenAI API error: ${error}`,
-      });
-    }
+  const backendConfig = getEmbeddingBackendConfig(event);
+  const backend = useEmbeddingBackend(event);
+  const cache = useEmbeddingCache(event);
+
+  // Serve what the cache has; only distinct misses go upstream
+  const keys = await Promise.all(
+    body.texts.map((text) => getEmbeddingCacheKey(backendConfig, text))
+  );
+  const found = await lookupCachedEmbeddings(cache, keys);
+  const missing = new Map<string, string>();
+  keys.forEach((key, i) => {
+    if (!found.has(key)) missing.set(key, body.texts[i]);
+  });
+  const missingTexts = Array.from(missing.values());
 
-    const data = await response.json();
-    const embeddings = data.data.map(
-      (item: { embedding: number[] }) => item.embedding
-    );
+  // The token budget is reserved up front from an estimate, since the
+  // upstream count is only known afterwards, and settled once it is
+  const estimatedTokens = estimateTokens(missingTexts);
+  const settleTokens = missingTexts.length > 0
+    ? await enforceRateLimit(event, {
+        name: 'tokens per day',
+        key: limitKey,
+        amount: estimatedTokens,
+        limit: Number(config.embedLimits.tokensPerDay),
+        windowMs: DAY,
+      })
+    : null;
+
+  let result: EmbeddingBackendResult | null = null;
+  try {
+    if (missingTexts.length > 0) {
+      result = await backend.embed(missingTexts);
+      const dimensions = result.embeddings[0]?.length ?? 0;
 
-    return {
-      embeddings,
-      dimensions: embeddings[0]?.length ?? 0,
-    };
+      if (result.embeddings.length !== missingTexts.length) {
+        throw new Error(
+          `Backend returned ${result.embeddings.length} embeddings for ${missingTexts.length} texts`
+        );
+      }
+      if (backendConfig.dimensions && dimensions !== backendConfig.dimensions) {
+        throw new Error(
+          `Backend returned ${dimensions} dimensions, configured for ${backendConfig.dimensions}`
+        );
+      }
+    }
   } catch (error) {
     console.error('Embedding error:', error);
+
+    // A failed request costs the client nothing
+    await settleTokens?.(0);
     throw createError({
       statusCode: 500,
       message: 'Failed to generate embeddings',
     });
   }
+
+  if (result) {
+    const { embeddings: computedEmbeddings, model } = result;
+    const computed = new Map<string, CachedEmbedding>();
+    Array.from(missing.keys()).forEach((key, i) => {
+      computed.set(key, { embedding: computedEmbeddings[i], model });
+    });
+    for (const [key, entry] of computed) found.set(key, entry);
+    await storeCachedEmbeddings(cache, computed);
+
+    // Metered only once the embeddings are in hand
+    const tokens = result.tokens ?? estimatedTokens;
+    await settleTokens?.(tokens);
+    await useUsageLedger(event).record({
+      tenantId: auth.tenantId,
+      clientId: auth.clientId,
+      model,
+      texts: missingTexts.length,
+      tokens,
+      cost: (tokens / 1_000_000) * Number(config.embedCostPerMillionTokens),
+      createdAt: Date.now(),
+    });
+  }
+
+  const embeddings = keys.map((key) => found.get(key)!.embedding);
+  const hits = keys.filter((key) => !missing.has(key)).length;
+
+  return {
+    embeddings,
+    dimensions: embeddings[0]?.length ?? 0,
+    model: result?.model ?? found.get(keys[0])!.model,
+    cache: {
+      hits,
+      misses: keys.length - hits,
+    },
+  };
 });
@@ -0,0 +1,49 @@
+// Embedding model endpoint - the model and size /api/embed answers with.
+// Read from the embedding cache, so checking it costs clients no quota.
+interface EmbedModelResponse {
+  model: string;
+  dimensions: number;
+}
+
+// Embedded once per backend configuration, then served from the cache
+const PROBE_TEXT = 'unimem model probe';
+
+const MINUTE = 60 * 1000;
+
+export default defineEventHandler(async (event): Promise<EmbedModelResponse> => {
+  const auth = await requireAuth(event);
+  const config = useRuntimeConfig();
+
+  const backendConfig = getEmbeddingBackendConfig(event);
+  const cache = useEmbeddingCache(event);
+  const key = await getEmbeddingCacheKey(backendConfig, PROBE_TEXT);
+
+  let probe = (await lookupCachedEmbeddings(cache, [key])).get(key);
+  if (!probe) {
+    // Only a probe that goes upstream counts against the request limit
+    await enforceRateLimit(event, {
+      name: 'requests per minute',
+      key: `${auth.tenantId}:${auth.clientId}`,
+      amount: 1,
+      limit: Number(config.embedLimits.requestsPerMinute),
+      windowMs: MINUTE,
+    });
+
+    try {
+      const result = await useEmbeddingBackend(event).embed([PROBE_TEXT]);
+      probe = { embedding: result.embeddings[0] ?? [], model: result.model };
+    } catch (error) {
+      console.error('Embedding model probe error:', error);
+      throw createError({
+        statusCode: 500,
+        message: 'Failed to resolve the embedding model',
+      });
+    }
+    await storeCachedEmbeddings(cache, new Map([[key, probe]]));
+  }
+
+  return {
+    model: probe.model,
+    dimensions: probe.embedding.length,
+  };
+});
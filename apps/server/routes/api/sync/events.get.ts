@@ -0,0 +1,70 @@
+import { EventStream } from 'h3';
+
+const HEARTBEAT_INTERVAL = 15 * 1000;
+
+// Live sync channel: notifies a client whenever other clients push changes,
+// so it can pull right away instead of waiting for its next poll
+export default defineEventHandler(async (event) => {
+  const auth = await requireAuth(event);
+  assertClientId(auth, getQuery(event).clientId as string);
+  const clientId = auth.clientId;
+
+  const scope = getSyncScope(event);
+  const store = useSyncStore(event, auth.tenantId);
+  const stream = new EventStream(event);
+  let lastSyncVersion = await store.getLatestSeq();
+
+  const notify = async (syncVersion: number) => {
+    if (syncVersion <= lastSyncVersion) return;
+    lastSyncVersion = syncVersion;
+
+    await stream.push({
+      id: String(syncVersion),
+      event: 'change',
+      data: JSON.stringify({ syncVersion: String(syncVersion) }),
+    });
+  };
+
+  const unsubscribe = subscribeToSyncChanges((notification) => {
+    if (notification.tenantId !== auth.tenantId) return;
+
+    if (notification.clientId === clientId) {
+      // The client already has its own changes
+      lastSyncVersion = Math.max(lastSyncVersion, notification.syncVersion);
+      return;
+    }
+
+    // Changes outside the client's scope are left to the heartbeat, which
+    // makes the client pull and evict its stale copies
+    if (notification.changes.some((change) => isInSyncScope(change, scope))) {
+      notify(notification.syncVersion).catch((error) => {
+        console.error('[Sync] Live channel notification failed:', error);
+      });
+    }
+  });
+
+  // Pushes handled by another worker instance never reach this process, so
+  // the heartbeat also checks the store for newer versions
+  const heartbeat = setInterval(async () => {
+    try {
+      const latest = await store.getLatestSeq();
+      if (latest > lastSyncVersion) {
+        await notify(latest);
+      } else {
+        await stream.pushComment('heartbeat');
+      }
+    } catch (error) {
+      console.error('[Sync] Live channel heartbeat failed:', error);
+    }
+  }, HEARTBEAT_INTERVAL);
+
+  stream.onClosed(() => {
+    clearInterval(heartbeat);
+    unsubscribe();
+    console.log(`[Sync] Live channel closed for client ${clientId}`);
+  });
+
+  console.log(`[Sync] Live channel opened for client ${clientId}`);
+
+  return stream;
+});
@@ -1,44 +1,55 @@
-import type { Entity } from '@unimem/types';
+import type { PullResponse } from '@unimem/types';
 
-interface PullResponse {
-  entities: Entity[];
-  syncVersion: string;
-  hasMore: boolean;
-}
+const MAX_PULL_LIMIT = 1000;
 
 export default defineEventHandler(async (event): Promise<PullResponse> => {
+  const auth = await requireAuth(event);
   const query = getQuery(event);
-  const clientId = query.clientId as string;
   const lastSyncVersion = query.lastSyncVersion as string;
-  const limit = parseInt(query.limit as string) || 100;
+  const limit = Math.min(
+    Math.max(parseInt(query.limit as string) || 100, 1),
+    MAX_PULL_LIMIT
+  );
+
+  assertClientId(auth, query.clientId as string);
+  const clientId = auth.clientId;
+
+  const since = parseInt(lastSyncVersion) || 0;
+  const scope = getSyncScope(event);
+  const store = useSyncStore(event, auth.tenantId);
+  const page = await store.getChangesSince({
+    since,
+    // A client pulling from scratch also gets back its own earlier pushes
+    excludeClientId: since > 0 ? clientId : '',
+    limit,
+  });
 
-  if (!clientId) {
-    throw createError({
-      statusCode: 400,
-      message: 'clientId is required',
-    });
-  }
+  // Entities outside the scope are only announced, so the client can evict
+  // copies it still holds
+  const inScope = page.changes.filter((change) => isInSyncScope(change, scope));
+  const evicted = page.changes
+    .filter((change) => change.entity && !isInSyncScope(change, scope))
+    .map((change) => change.entityId);
 
-  // TODO: Implement actual sync logic with ElectricSQL
-  // For now, this returns an empty set
+  // Pulling from `since` means every change up to it reached the client
+  await store.acknowledge(clientId, since);
+  const purged = await store.collectGarbage(
+    Date.now() - useRuntimeConfig().tombstoneGcWindow
+  );
 
-  console.log(`[Sync] Pull for client ${clientId}:`, {
+  console.log(`[Sync] Pull for client ${clientId} (${auth.tenantId}):`, {
     lastSyncVersion,
     limit,
+    returned: inScope.length,
+    evicted: evicted.length,
+    purged,
   });
 
-  // In a real implementation, you would:
-  // 1. Query entities modified after lastSyncVersion
-  // 2. Filter by clientId to exclude own changes
-  // 3. Paginate results
-
   return {
-    entities: [],
-    syncVersion: lastSyncVersion || generateSyncVersion(),
-    hasMore: false,
+    entities: inScope.flatMap((change) => change.entity ?? []),
+    tombstones: inScope.flatMap((change) => change.tombstone ?? []),
+    evicted,
+    syncVersion: String(page.syncVersion),
+    hasMore: page.hasMore,
   };
 });
-
-function generateSyncVersion(): string {
-  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-}
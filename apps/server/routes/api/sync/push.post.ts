@@ -1,54 +1,112 @@
-import type { Entity } from '@unimem/types';
-
-interface PushPayload {
-  clientId: string;
-  entities: Entity[];
-  lastSyncVersion: string;
-}
-
-interface PushResponse {
-  success: boolean;
-  syncVersion: string;
-  conflicts: Array<{
-    entityId: string;
-    serverVersion: Entity;
-  }>;
-}
+import type { Entity, PushPayload, PushResponse, Tombstone } from '@unimem/types';
+import { compareHlc } from '@unimem/core';
 
 export default defineEventHandler(async (event): Promise<PushResponse> => {
+  const auth = await requireAuth(event);
   const body = await readBody<PushPayload>(event);
 
   // Validate payload
-  if (!body.clientId || !body.entities) {
+  if (!Array.isArray(body?.entities)) {
     throw createError({
       statusCode: 400,
       message: 'Invalid push payload',
     });
   }
 
-  // TODO: Implement actual sync logic with ElectricSQL
-  // For now, this is a placeholder that accepts all changes
+  if (body.entities.some((entity) => !entity?.id || !entity.type)) {
+    throw createError({
+      statusCode: 400,
+      message: 'Every pushed entity needs an id and a type',
+    });
+  }
+
+  const pushedTombstones = body.tombstones ?? [];
+  if (!Array.isArray(pushedTombstones) || pushedTombstones.some((t) => !t?.entityId)) {
+    throw createError({
+      statusCode: 400,
+      message: 'Every pushed tombstone needs an entityId',
+    });
+  }
+
+  assertClientId(auth, body.clientId);
+  const clientId = auth.clientId;
 
-  const newSyncVersion = generateSyncVersion();
+  const store = useSyncStore(event, auth.tenantId);
   const conflicts: PushResponse['conflicts'] = [];
+  const tombstones: Tombstone[] = [];
+  const accepted: Entity[] = [];
 
-  // In a real implementation, you would:
-  // 1. Check for conflicts with server state
-  // 2. Apply non-conflicting changes
-  // 3. Return conflicting entities for client resolution
+  // An edit conflicts when another client wrote a version newer than the
+  // one the edit was based on. The base version is returned alongside so the
+  // client can run a three-way merge.
+  const current = await store.getCurrent(
+    body.entities.map((entity) => entity.id)
+  );
+  for (const entity of body.entities) {
+    const existing = current.get(entity.id);
+    const baseVersion = body.baseVersions?.[entity.id];
 
-  console.log(`[Sync] Push from client ${body.clientId}:`, {
+    // Deletes win over concurrent edits, so stale devices cannot resurrect
+    if (existing?.tombstone) {
+      tombstones.push(existing.tombstone);
+      continue;
+    }
+
+    if (
+      existing?.entity &&
+      existing.clientId !== clientId &&
+      compareHlc(existing.entity.syncVersion, baseVersion) > 0
+    ) {
+      const base = baseVersion
+        ? await store.getVersion(entity.id, baseVersion)
+        : null;
+
+      conflicts.push({
+        entityId: entity.id,
+        serverVersion: existing.entity,
+        ...(base && { baseVersion: base }),
+      });
+    } else {
+      accepted.push(entity);
+    }
+  }
+
+  await assertWithinQuota(event, store, accepted, pushedTombstones);
+
+  const applied = [
+    ...(await store.applyChanges(clientId, accepted)),
+    ...(await store.applyTombstones(clientId, pushedTombstones)),
+  ];
+  const syncVersion =
+    applied.length > 0
+      ? applied[applied.length - 1].seq
+      : await store.getLatestSeq();
+
+  if (applied.length > 0) {
+    notifySyncChange({
+      tenantId: auth.tenantId,
+      clientId,
+      syncVersion,
+      changes: applied,
+    });
+  }
+
+  console.log(`[Sync] Push from client ${clientId} (${auth.tenantId}):`, {
     entityCount: body.entities.length,
+    tombstoneCount: pushedTombstones.length,
+    conflictCount: conflicts.length,
     lastSyncVersion: body.lastSyncVersion,
+    syncVersion,
   });
 
   return {
     success: true,
-    syncVersion: newSyncVersion,
+    syncVersion: String(syncVersion),
+    applied: applied.map((change) => ({
+      entityId: change.entityId,
+      syncVersion: String(change.seq),
+    })),
     conflicts,
+    tombstones,
   };
 });
-
-function generateSyncVersion(): string {
-  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-}
@@ -0,0 +1,239 @@
+// =============================================================================
+// Tenant Isolation Check - Two tenants sharing entity IDs see only their own
+// =============================================================================
+
+// Run with `pnpm --filter @unimem/server check:isolation`, which builds the
+// server first. Checks the SQL store on a local D1 (wrangler's `check`
+// environment), then the sync routes of the built worker, where tenants are
+// told apart by their credentials. Fails when D1 cannot start.
+
+import { getPlatformProxy, unstable_dev } from 'wrangler';
+import type { PullResponse, PushPayload, PushResponse, Resource, Tombstone } from '@unimem/types';
+import { SqlSyncStore, type SqlDatabase, type SyncStore } from '../utils/sync-store';
+
+const SHARED_ID = '00000000-0000-4000-8000-000000000001';
+const DELETED_ID = '00000000-0000-4000-8000-000000000002';
+const CLIENT_ID = 'device-1';
+
+// Secrets of the throwaway worker
+const AUTH_SECRET = 'tenant-isolation-check';
+const ADMIN_TOKEN = 'tenant-isolation-admin';
+
+type Worker = Awaited<ReturnType<typeof unstable_dev>>;
+
+function entity(id: string, title: string, syncVersion: string): Resource {
+  const now = new Date();
+  return {
+    id,
+    type: 'resource',
+    memoryLayer: 'semantic',
+    title,
+    content: `${title} content`,
+    links: [],
+    tags: [],
+    createdAt: now,
+    updatedAt: now,
+    resourceType: 'reference',
+    syncVersion,
+  };
+}
+
+function check(description: string, passed: boolean): void {
+  if (!passed) throw new Error(`Tenant isolation broken: ${description}`);
+  console.log(`ok - ${description}`);
+}
+
+// -----------------------------------------------------------------------------
+// Store
+// -----------------------------------------------------------------------------
+
+async function checkStoreIsolation(acme: SyncStore, globex: SyncStore): Promise<void> {
+  // Both tenants write the same entity ID from a client with the same ID
+  await acme.applyChanges(CLIENT_ID, [
+    entity(SHARED_ID, 'Acme plan', 'acme-1'),
+    entity(DELETED_ID, 'Acme draft', 'acme-2'),
+  ]);
+  const tombstone: Tombstone = {
+    entityId: DELETED_ID,
+    entityType: 'resource',
+    syncVersion: 'acme-3',
+    deletedAt: new Date(),
+  };
+  await acme.applyTombstones(CLIENT_ID, [tombstone]);
+  await globex.applyChanges(CLIENT_ID, [entity(SHARED_ID, 'Globex plan', 'globex-1')]);
+
+  const query = { since: 0, excludeClientId: 'another-device', limit: 100 };
+  const acmeChanges = (await acme.getChangesSince(query)).changes;
+  const globexChanges = (await globex.getChangesSince(query)).changes;
+
+  check(
+    'changes since the same cursor are the tenant\'s own',
+    acmeChanges.length === 2 &&
+      acmeChanges.every((change) => change.entity?.title !== 'Globex plan') &&
+      globexChanges.length === 1 &&
+      globexChanges[0].entity?.title === 'Globex plan'
+  );
+  check(
+    'tombstones stay with their tenant',
+    acmeChanges.some((change) => change.tombstone?.entityId === DELETED_ID) &&
+      !globexChanges.some((change) => change.tombstone)
+  );
+
+  const acmeCurrent = await acme.getCurrent([SHARED_ID, DELETED_ID]);
+  const globexCurrent = await globex.getCurrent([SHARED_ID, DELETED_ID]);
+  check(
+    'the same entity ID resolves to each tenant\'s version',
+    acmeCurrent.get(SHARED_ID)?.entity?.title === 'Acme plan' &&
+      globexCurrent.get(SHARED_ID)?.entity?.title === 'Globex plan' &&
+      !globexCurrent.has(DELETED_ID)
+  );
+  check(
+    'past versions are not readable across tenants',
+    (await acme.getVersion(SHARED_ID, 'acme-1')) !== null &&
+      (await globex.getVersion(SHARED_ID, 'acme-1')) === null
+  );
+
+  const acmeUsage = await acme.getUsage();
+  const globexUsage = await globex.getUsage();
+  check(
+    'quota usage counts only the tenant\'s entities',
+    acmeUsage.entityCount === 1 &&
+      globexUsage.entityCount === 1 &&
+      globexUsage.bytes < acmeUsage.bytes
+  );
+
+  // Garbage collection in one tenant leaves the other's tombstones alone
+  await globex.acknowledge(CLIENT_ID, await globex.getLatestSeq());
+  await globex.collectGarbage(Number.MAX_SAFE_INTEGER);
+  check(
+    'garbage collection stays within the tenant',
+    (await acme.getCurrent([DELETED_ID])).get(DELETED_ID)?.tombstone !== undefined
+  );
+}
+
+// -----------------------------------------------------------------------------
+// Routes
+// -----------------------------------------------------------------------------
+
+async function call<T>(
+  worker: Worker,
+  method: 'GET' | 'POST',
+  path: string,
+  token: string,
+  body?: unknown
+): Promise<{ status: number; data: T }> {
+  const response = await worker.fetch(path, {
+    method,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  return { status: response.status, data: (await response.json()) as T };
+}
+
+async function push(worker: Worker, token: string, entities: Resource[]) {
+  const payload: PushPayload = {
+    clientId: CLIENT_ID,
+    entities,
+    baseVersions: {},
+    lastSyncVersion: '0',
+  };
+  return call<PushResponse>(worker, 'POST', '/api/sync/push', token, payload);
+}
+
+async function pull(worker: Worker, token: string) {
+  return call<PullResponse>(
+    worker,
+    'GET',
+    `/api/sync/pull?clientId=${CLIENT_ID}&lastSyncVersion=0`,
+    token
+  );
+}
+
+async function checkRouteIsolation(worker: Worker): Promise<void> {
+  // Devices of two users, so two tenants, with the same client ID. The
+  // local D1 outlives the worker, so every run uses new users.
+  const run = crypto.randomUUID().slice(0, 8);
+  const issueKey = async (userId: string) =>
+    (await call<{ apiKey: string }>(worker, 'POST', '/api/auth/keys', ADMIN_TOKEN, {
+      userId: `${userId}-${run}`,
+      clientId: CLIENT_ID,
+    })).data.apiKey;
+  const accessToken = async (apiKey: string) =>
+    (await call<{ token: string }>(worker, 'POST', '/api/auth/token', apiKey)).data.token;
+
+  const acmeKey = await issueKey('acme-user');
+  const globexKey = await issueKey('globex-user');
+  const credentials = {
+    acme: { 'API key': acmeKey, 'access token': await accessToken(acmeKey) },
+    globex: { 'API key': globexKey, 'access token': await accessToken(globexKey) },
+  };
+
+  const pushed = await push(worker, credentials.acme['API key'], [
+    entity(SHARED_ID, 'Acme plan', 'acme-1'),
+  ]);
+  check('a tenant can push', pushed.status === 200 && pushed.data.applied.length === 1);
+
+  for (const [method, token] of Object.entries(credentials.globex)) {
+    const pulled = await pull(worker, token);
+    check(
+      `pulling with another tenant's ${method} returns none of its changes`,
+      pulled.status === 200 &&
+        pulled.data.entities.length === 0 &&
+        pulled.data.tombstones.length === 0
+    );
+  }
+
+  // Were the tenants' data shared, this edit would conflict with Acme's
+  const globexPush = await push(worker, credentials.globex['access token'], [
+    entity(SHARED_ID, 'Globex plan', 'globex-1'),
+  ]);
+  check(
+    'pushing an entity ID another tenant uses does not conflict',
+    globexPush.status === 200 &&
+      globexPush.data.applied.length === 1 &&
+      globexPush.data.conflicts.length === 0
+  );
+
+  for (const [method, token] of Object.entries(credentials.acme)) {
+    const pulled = await pull(worker, token);
+    check(
+      `pulling with a tenant's ${method} returns only its own version`,
+      pulled.status === 200 &&
+        pulled.data.entities.length === 1 &&
+        pulled.data.entities[0].title === 'Acme plan'
+    );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Run
+// -----------------------------------------------------------------------------
+
+const proxy = await getPlatformProxy({ environment: 'check', persist: false });
+try {
+  const db = proxy.env.DB as SqlDatabase | undefined;
+  if (!db) {
+    throw new Error('No D1 binding in the `check` environment of wrangler.toml');
+  }
+
+  console.log('# Store (SqlSyncStore on D1)');
+  await checkStoreIsolation(new SqlSyncStore(db, 'acme'), new SqlSyncStore(db, 'globex'));
+} finally {
+  await proxy.dispose();
+}
+
+const worker = await unstable_dev('.output/server/index.mjs', {
+  config: '.output/server/wrangler.json',
+  env: 'check',
+  local: true,
+  persist: false,
+  vars: { NITRO_AUTH_SECRET: AUTH_SECRET, NITRO_AUTH_ADMIN_TOKEN: ADMIN_TOKEN },
+  logLevel: 'error',
+  experimental: { disableExperimentalWarning: true },
+});
+try {
+  console.log('# Routes (built worker on D1)');
+  await checkRouteIsolation(worker);
+} finally {
+  await worker.stop();
+}
@@ -0,0 +1,242 @@
+import type { H3Event } from 'h3';
+import type { SqlDatabase } from './sync-store';
+
+// -----------------------------------------------------------------------------
+// API Key Store Interface
+// -----------------------------------------------------------------------------
+
+/**
+ * A device API key. Only a hash of the secret is stored.
+ */
+export interface ApiKeyRecord {
+  id: string;
+  userId: string;
+  workspaceId: string | null; // shared workspace the device syncs (the user's own data when null)
+  clientId: string;
+  name: string | null;
+  secretHash: string;
+  createdAt: number; // ms since epoch
+  lastUsedAt: number | null;
+  revokedAt: number | null;
+}
+
+export interface ApiKeyStore {
+  create(record: ApiKeyRecord): Promise<void>;
+
+  get(id: string): Promise<ApiKeyRecord | null>;
+
+  /**
+   * Every key of a user, revoked ones included, newest first
+   */
+  listForUser(userId: string): Promise<ApiKeyRecord[]>;
+
+  /**
+   * Revoke a key. Returns false when the key does not exist.
+   */
+  revoke(id: string): Promise<boolean>;
+
+  /**
+   * Record that the key was just used
+   */
+  touch(id: string, usedAt: number): Promise<void>;
+}
+
+// -----------------------------------------------------------------------------
+// In-Memory Store (dev server, tests)
+// -----------------------------------------------------------------------------
+
+export class MemoryApiKeyStore implements ApiKeyStore {
+  private keys = new Map<string, ApiKeyRecord>();
+
+  async create(record: ApiKeyRecord): Promise<void> {
+    if (this.keys.has(record.id)) {
+      throw new Error(`API key already exists: ${record.id}`);
+    }
+    this.keys.set(record.id, { ...record });
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    const record = this.keys.get(id);
+    return record ? { ...record } : null;
+  }
+
+  async listForUser(userId: string): Promise<ApiKeyRecord[]> {
+    return Array.from(this.keys.values())
+      .filter((record) => record.userId === userId)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((record) => ({ ...record }));
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    const record = this.keys.get(id);
+    if (!record) return false;
+
+    record.revokedAt ??= Date.now();
+    return true;
+  }
+
+  async touch(id: string, usedAt: number): Promise<void> {
+    const record = this.keys.get(id);
+    if (record) record.lastUsedAt = usedAt;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// SQL Store (Cloudflare D1)
+// -----------------------------------------------------------------------------
+
+const API_KEY_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    workspace_id TEXT,
+    client_id TEXT NOT NULL,
+    name TEXT,
+    secret_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    last_used_at INTEGER,
+    revoked_at INTEGER
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_api_keys_user ON api_keys(user_id)`,
+];
+
+interface ApiKeyRow {
+  id: string;
+  user_id: string;
+  workspace_id: string | null;
+  client_id: string;
+  name: string | null;
+  secret_hash: string;
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+// Schema creation runs once per database
+const schemaReady = new WeakMap<SqlDatabase, Promise<void>>();
+
+export class SqlApiKeyStore implements ApiKeyStore {
+  private db: SqlDatabase;
+
+  constructor(db: SqlDatabase) {
+    this.db = db;
+  }
+
+  async create(record: ApiKeyRecord): Promise<void> {
+    await this.ensureSchema();
+
+    await this.db
+      .prepare(
+        `INSERT INTO api_keys
+           (id, user_id, workspace_id, client_id, name, secret_hash, created_at, last_used_at, revoked_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        record.id,
+        record.userId,
+        record.workspaceId,
+        record.clientId,
+        record.name,
+        record.secretHash,
+        record.createdAt,
+        record.lastUsedAt,
+        record.revokedAt
+      )
+      .run();
+  }
+
+  async get(id: string): Promise<ApiKeyRecord | null> {
+    await this.ensureSchema();
+
+    const row = await this.db
+      .prepare(`SELECT * FROM api_keys WHERE id = ?`)
+      .bind(id)
+      .first<ApiKeyRow>();
+
+    return row ? rowToRecord(row) : null;
+  }
+
+  async listForUser(userId: string): Promise<ApiKeyRecord[]> {
+    await this.ensureSchema();
+
+    const { results } = await this.db
+      .prepare(`SELECT * FROM api_keys WHERE user_id = ? ORDER BY created_at DESC`)
+      .bind(userId)
+      .all<ApiKeyRow>();
+
+    return results.map(rowToRecord);
+  }
+
+  async revoke(id: string): Promise<boolean> {
+    await this.ensureSchema();
+
+    const row = await this.db
+      .prepare(
+        `UPDATE api_keys SET revoked_at = COALESCE(revoked_at, ?)
+         WHERE id = ? RETURNING id`
+      )
+      .bind(Date.now(), id)
+      .first<{ id: string }>();
+
+    return row !== null;
+  }
+
+  async touch(id: string, usedAt: number): Promise<void> {
+    await this.ensureSchema();
+
+    await this.db
+      .prepare(`UPDATE api_keys SET last_used_at = ? WHERE id = ?`)
+      .bind(usedAt, id)
+      .run();
+  }
+
+  private ensureSchema(): Promise<void> {
+    let ready = schemaReady.get(this.db);
+    if (!ready) {
+      ready = this.db
+        .batch(API_KEY_SCHEMA.map((sql) => this.db.prepare(sql)))
+        .then(() => undefined)
+        .catch((error) => {
+          schemaReady.delete(this.db);
+          throw error;
+        });
+      schemaReady.set(this.db, ready);
+    }
+    return ready;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Store Resolution
+// -----------------------------------------------------------------------------
+
+let memoryStore: MemoryApiKeyStore | null = null;
+
+/**
+ * Resolve the API key store for a request: the D1 binding when deployed to
+ * Cloudflare, otherwise a process-local in-memory store.
+ */
+export function useApiKeyStore(event: H3Event): ApiKeyStore {
+  const binding = getSqlBinding(event, useRuntimeConfig().authDatabaseBinding);
+
+  if (binding) {
+    return new SqlApiKeyStore(binding);
+  }
+
+  memoryStore ??= new MemoryApiKeyStore();
+  return memoryStore;
+}
+
+function rowToRecord(row: ApiKeyRow): ApiKeyRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    workspaceId: row.workspace_id,
+    clientId: row.client_id,
+    name: row.name,
+    secretHash: row.secret_hash,
+    createdAt: Number(row.created_at),
+    lastUsedAt: row.last_used_at === null ? null : Number(row.last_used_at),
+    revokedAt: row.revoked_at === null ? null : Number(row.revoked_at),
+  };
+}
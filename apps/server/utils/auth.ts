@@ -1,5 +1,42 @@
 import type { H3Event } from 'h3';
 
+// -----------------------------------------------------------------------------
+// Auth Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Identity behind an authenticated request. A user owns any number of
+ * devices; each device has its own client ID and API key. Data is stored per
+ * tenant: a shared workspace, or the user's own space.
+ */
+export interface AuthContext {
+  userId: string;
+  tenantId: string;
+  clientId: string;
+  keyId: string;
+  method: 'api-key' | 'jwt';
+}
+
+interface AccessTokenClaims {
+  sub: string; // user ID
+  tid: string; // tenant ID
+  cid: string; // client ID
+  kid: string; // API key the token was issued for
+  iat: number;
+  exp: number;
+}
+
+export interface AccessToken {
+  token: string;
+  expiresAt: number; // ms since epoch
+}
+
+const API_KEY_PREFIX = 'umk';
+
+// -----------------------------------------------------------------------------
+// Request Authentication
+// -----------------------------------------------------------------------------
+
 /**
  * Extract and validate auth token from request
  */
@@ -19,9 +56,10 @@ export function getAuthToken(event: H3Event): string | null {
 }
 
 /**
- * Require authentication for an endpoint
+ * Require authentication for an endpoint. Accepts a device API key or an
+ * access token issued for one; either stops working once the key is revoked.
  */
-export async function requireAuth(event: H3Event): Promise<string> {
+export async function requireAuth(event: H3Event): Promise<AuthContext> {
   const token = getAuthToken(event);
 
   if (!token) {
@@ -31,10 +69,197 @@ export async function requireAuth(event: H3Event): Promise<string> {
     });
   }
 
-  // TODO: Validate token (JWT, API key, etc.)
-  // For now, just return the token as client ID
+  const auth = token.startsWith(`${API_KEY_PREFIX}_`)
+    ? await verifyApiKey(event, token)
+    : await verifyAccessToken(event, token);
+
+  if (!auth) {
+    throw createError({
+      statusCode: 401,
+      message: 'Invalid or revoked credentials',
+    });
+  }
+
+  event.context.auth = auth;
+  return auth;
+}
+
+/**
+ * Reject requests made on behalf of another device than the authenticated one
+ */
+export function assertClientId(auth: AuthContext, clientId?: string | null): void {
+  if (clientId && clientId !== auth.clientId) {
+    throw createError({
+      statusCode: 403,
+      message: `Credentials do not belong to client ${clientId}`,
+    });
+  }
+}
+
+/**
+ * Whether the request carries the operator's admin token
+ */
+export function isAdminRequest(event: H3Event): boolean {
+  const adminToken = useRuntimeConfig(event).authAdminToken as string;
+  const token = getAuthToken(event);
+
+  return Boolean(adminToken && token && timingSafeEqual(token, adminToken));
+}
+
+export function requireAdmin(event: H3Event): void {
+  if (!isAdminRequest(event)) {
+    throw createError({
+      statusCode: 403,
+      message: 'Admin access required',
+    });
+  }
+}
+
+// -----------------------------------------------------------------------------
+// API Keys
+// -----------------------------------------------------------------------------
+
+/**
+ * Create a key for a device. The secret is only returned here; the store
+ * keeps its hash.
+ */
+export async function issueApiKey(
+  event: H3Event,
+  options: { userId: string; workspaceId?: string | null; clientId: string; name?: string }
+): Promise<{ apiKey: string; record: ApiKeyRecord }> {
+  const id = randomToken(9);
+  const secret = randomToken(24);
+
+  const record: ApiKeyRecord = {
+    id,
+    userId: options.userId,
+    workspaceId: options.workspaceId ?? null,
+    clientId: options.clientId,
+    name: options.name ?? null,
+    secretHash: await sha256(secret),
+    createdAt: Date.now(),
+    lastUsedAt: null,
+    revokedAt: null,
+  };
+  await useApiKeyStore(event).create(record);
+
+  return { apiKey: `${API_KEY_PREFIX}_${id}_${secret}`, record };
+}
+
+async function verifyApiKey(event: H3Event, apiKey: string): Promise<AuthContext | null> {
+  const [, id, secret] = apiKey.split('_');
+  if (!id || !secret) return null;
+
+  const store = useApiKeyStore(event);
+  const record = await store.get(id);
+  if (!record || record.revokedAt !== null) return null;
+  if (!timingSafeEqual(await sha256(secret), record.secretHash)) return null;
+
+  await store.touch(id, Date.now());
+
+  return {
+    userId: record.userId,
+    tenantId: getTenantId(record),
+    clientId: record.clientId,
+    keyId: record.id,
+    method: 'api-key',
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Access Tokens (HS256 JWT)
+// -----------------------------------------------------------------------------
+
+/**
+ * Sign a short-lived access token for an authenticated device
+ */
+export async function issueAccessToken(
+  event: H3Event,
+  auth: AuthContext
+): Promise<AccessToken> {
+  const config = useRuntimeConfig(event);
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AccessTokenClaims = {
+    sub: auth.userId,
+    tid: auth.tenantId,
+    cid: auth.clientId,
+    kid: auth.keyId,
+    iat: now,
+    exp: now + Number(config.accessTokenTtl),
+  };
+
+  const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  const signature = await sign(event, `${header}.${payload}`);
+
+  return {
+    token: `${header}.${payload}.${signature}`,
+    expiresAt: claims.exp * 1000,
+  };
+}
+
+async function verifyAccessToken(event: H3Event, token: string): Promise<AuthContext | null> {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = await sign(event, `${header}.${payload}`);
+  if (!timingSafeEqual(signature, expected)) return null;
+
+  let claims: AccessTokenClaims;
+  try {
+    claims = JSON.parse(base64UrlDecode(payload));
+  } catch {
+    return null;
+  }
+  if (!claims.exp || claims.exp * 1000 <= Date.now()) return null;
+
+  // Revoking a key also ends the tokens issued for it
+  const record = await useApiKeyStore(event).get(claims.kid);
+  if (!record || record.revokedAt !== null) return null;
+
+  return {
+    userId: claims.sub,
+    tenantId: claims.tid,
+    clientId: claims.cid,
+    keyId: claims.kid,
+    method: 'jwt',
+  };
+}
+
+async function sign(event: H3Event, data: string): Promise<string> {
+  const secret = useRuntimeConfig(event).authSecret as string;
+
+  if (!secret) {
+    throw createError({
+      statusCode: 500,
+      message: 'Auth secret not configured',
+    });
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
 
-  return token;
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Tenant owning the data of a key's device
+ */
+export function getTenantId(record: Pick<ApiKeyRecord, 'userId' | 'workspaceId'>): string {
+  return record.workspaceId
+    ? `workspace:${record.workspaceId}`
+    : `user:${record.userId}`;
 }
 
 /**
@@ -43,3 +268,39 @@ export async function requireAuth(event: H3Event): Promise<string> {
 export function generateClientId(): string {
   return `client_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
 }
+
+function randomToken(bytes: number): string {
+  // Underscores separate the parts of an API key
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes))).replace(/_/g, '-');
+}
+
+async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function base64UrlEncode(value: string | Uint8Array): string {
+  const bytes = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,203 @@
+import type { H3Event } from 'h3';
+
+// -----------------------------------------------------------------------------
+// Embedding Backend Interface
+// -----------------------------------------------------------------------------
+
+export type EmbeddingBackendType = 'openai' | 'ollama' | 'hash';
+
+export interface EmbeddingBackendConfig {
+  provider: EmbeddingBackendType;
+  baseUrl: string;
+  model: string;
+  dimensions: number; // 0 = the model's native size
+  apiKey: string;
+}
+
+export interface EmbeddingBackendResult {
+  embeddings: number[][];
+  model: string;   // model that produced the embeddings, as reported upstream
+  tokens?: number; // upstream token count, when reported
+}
+
+/**
+ * Upstream that turns texts into embeddings for /api/embed
+ */
+export interface EmbeddingBackend {
+  embed(texts: string[]): Promise<EmbeddingBackendResult>;
+}
+
+const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_HASH_DIMENSIONS = 384;
+
+// -----------------------------------------------------------------------------
+// Backend Resolution
+// -----------------------------------------------------------------------------
+
+export function getEmbeddingBackendConfig(event: H3Event): EmbeddingBackendConfig {
+  const config = useRuntimeConfig(event);
+  const embedding = (config.embedding ?? {}) as Partial<EmbeddingBackendConfig>;
+
+  return {
+    provider: embedding.provider || 'openai',
+    baseUrl: (embedding.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, ''),
+    model: embedding.model || 'text-embedding-3-small',
+    dimensions: Number(embedding.dimensions) || 0,
+    // The older top-level key still works for OpenAI
+    apiKey: embedding.apiKey || config.openaiApiKey || '',
+  };
+}
+
+/**
+ * Backend configured for /api/embed
+ */
+export function useEmbeddingBackend(event: H3Event): EmbeddingBackend {
+  const config = getEmbeddingBackendConfig(event);
+
+  switch (config.provider) {
+    case 'openai':
+      if (!config.apiKey && config.baseUrl === DEFAULT_OPENAI_BASE_URL) {
+        throw createError({
+          statusCode: 500,
+          message: 'OpenAI API key not configured',
+        });
+      }
+      return new OpenAICompatibleBackend(config);
+    case 'ollama':
+      return new OllamaBackend(config);
+    case 'hash':
+      return new HashBackend(config);
+    default:
+      throw createError({
+        statusCode: 500,
+        message: `Unknown embedding provider: ${config.provider}`,
+      });
+  }
+}
+
+// -----------------------------------------------------------------------------
+// OpenAI-Compatible Backend (OpenAI, vLLM, LM Studio, LocalAI, TEI, ...)
+// -----------------------------------------------------------------------------
+
+export class OpenAICompatibleBackend implements EmbeddingBackend {
+  private config: EmbeddingBackendConfig;
+
+  constructor(config: EmbeddingBackendConfig) {
+    this.config = config;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBackendResult> {
+    const response = await fetch(`${this.config.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.config.model,
+        input: texts,
+        ...(this.config.dimensions && { dimensions: this.config.dimensions }),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Embedding API error (${response.status}): ${error}`);
+    }
+
+    const data = (await response.json()) as {
+      data: Array<{ embedding: number[]; index?: number }>;
+      model?: string;
+      usage?: { total_tokens?: number };
+    };
+
+    // Items carry their input index; not every server keeps input order
+    const items = [...data.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0));
+
+    return {
+      embeddings: items.map((item) => item.embedding),
+      model: data.model ?? this.config.model,
+      tokens: data.usage?.total_tokens,
+    };
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Ollama Backend
+// -----------------------------------------------------------------------------
+
+export class OllamaBackend implements EmbeddingBackend {
+  private config: EmbeddingBackendConfig;
+
+  constructor(config: EmbeddingBackendConfig) {
+    this.config = config;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBackendResult> {
+    const response = await fetch(`${this.config.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.config.model,
+        input: texts,
+        ...(this.config.dimensions && { dimensions: this.config.dimensions }),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Ollama error (${response.status}): ${error}`);
+    }
+
+    const data = (await response.json()) as {
+      embeddings: number[][];
+      model?: string;
+      prompt_eval_count?: number;
+    };
+
+    return {
+      embeddings: data.embeddings,
+      model: data.model ?? this.config.model,
+      tokens: data.prompt_eval_count,
+    };
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Hash Backend (deterministic, no model; for tests and offline development)
+// -----------------------------------------------------------------------------
+
+export class HashBackend implements EmbeddingBackend {
+  private dimensions: number;
+
+  constructor(config: EmbeddingBackendConfig) {
+    this.dimensions = config.dimensions || DEFAULT_HASH_DIMENSIONS;
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBackendResult> {
+    return {
+      embeddings: texts.map((text) => this.embedOne(text)),
+      model: `hash-${this.dimensions}`,
+    };
+  }
+
+  private embedOne(text: string): number[] {
+    // FNV-1a seed, then a xorshift stream: same text, same vector
+    let state = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      state ^= text.charCodeAt(i);
+      state = Math.imul(state, 0x01000193);
+    }
+
+    const embedding: number[] = [];
+    for (let i = 0; i < this.dimensions; i++) {
+      state ^= state << 13;
+      state ^= state >>> 17;
+      state ^= state << 5;
+      embedding.push((state >>> 0) / 0xffffffff * 2 - 1);
+    }
+
+    const magnitude = Math.sqrt(embedding.reduce((sum, value) => sum + value * value, 0));
+    return embedding.map((value) => (magnitude === 0 ? 0 : value / magnitude));
+  }
+}
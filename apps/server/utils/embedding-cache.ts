@@ -0,0 +1,272 @@
+import type { H3Event } from 'h3';
+import type { KvNamespace } from './rate-limit';
+import type { SqlDatabase } from './sync-store';
+import type { EmbeddingBackendConfig } from './embedding-backend';
+
+// -----------------------------------------------------------------------------
+// Embedding Cache Interface
+// -----------------------------------------------------------------------------
+
+export interface CachedEmbedding {
+  embedding: number[];
+  model: string; // model reported when the embedding was computed
+}
+
+/**
+ * Embeddings keyed by a hash of the text and the backend that embedded it
+ */
+export interface EmbeddingCache {
+  getMany(keys: string[]): Promise<Map<string, CachedEmbedding>>;
+  setMany(entries: Map<string, CachedEmbedding>): Promise<void>;
+}
+
+export interface EmbeddingCacheConfig {
+  enabled: boolean;
+  maxEntries: number; // in-memory cache size
+  ttl: number;        // seconds entries live in KV or D1
+}
+
+// D1 caps bound parameters per statement
+const SQL_KEY_CHUNK = 90;
+
+/**
+ * Cache key of a text: the provider, endpoint, model and dimensions decide
+ * the vectors, so they are part of the key
+ */
+export async function getEmbeddingCacheKey(
+  backend: EmbeddingBackendConfig,
+  text: string
+): Promise<string> {
+  const input = [backend.provider, backend.baseUrl, backend.model, backend.dimensions, text].join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function getEmbeddingCacheConfig(event: H3Event): EmbeddingCacheConfig {
+  const cache = (useRuntimeConfig(event).embeddingCache ?? {}) as Partial<EmbeddingCacheConfig>;
+
+  return {
+    enabled: cache.enabled !== false,
+    maxEntries: Number(cache.maxEntries) || 10_000,
+    ttl: Number(cache.ttl) || 30 * 24 * 60 * 60,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// In-Memory Cache (dev server, tests)
+// -----------------------------------------------------------------------------
+
+/**
+ * Least-recently-used cache bounded by entry count
+ */
+export class MemoryEmbeddingCache implements EmbeddingCache {
+  private entries = new Map<string, CachedEmbedding>();
+  private maxEntries: number;
+
+  constructor(maxEntries: number) {
+    this.maxEntries = maxEntries;
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, CachedEmbedding>> {
+    const found = new Map<string, CachedEmbedding>();
+    for (const key of keys) {
+      const entry = this.entries.get(key);
+      if (!entry) continue;
+
+      // Re-insert to mark as most recently used
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      found.set(key, entry);
+    }
+    return found;
+  }
+
+  async setMany(entries: Map<string, CachedEmbedding>): Promise<void> {
+    for (const [key, entry] of entries) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// KV Cache (Cloudflare Workers KV)
+// -----------------------------------------------------------------------------
+
+export class KvEmbeddingCache implements EmbeddingCache {
+  private kv: KvNamespace;
+  private ttl: number;
+
+  constructor(kv: KvNamespace, ttl: number) {
+    this.kv = kv;
+    this.ttl = ttl;
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, CachedEmbedding>> {
+    const values = await Promise.all(keys.map((key) => this.kv.get(`embedding:${key}`)));
+
+    const found = new Map<string, CachedEmbedding>();
+    values.forEach((value, i) => {
+      if (value) found.set(keys[i], JSON.parse(value) as CachedEmbedding);
+    });
+    return found;
+  }
+
+  async setMany(entries: Map<string, CachedEmbedding>): Promise<void> {
+    await Promise.all(
+      Array.from(entries, ([key, entry]) =>
+        this.kv.put(`embedding:${key}`, JSON.stringify(entry), { expirationTtl: this.ttl })
+      )
+    );
+  }
+}
+
+// -----------------------------------------------------------------------------
+// SQL Cache (Cloudflare D1)
+// -----------------------------------------------------------------------------
+
+const EMBEDDING_CACHE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS embedding_cache (
+    key TEXT PRIMARY KEY,
+    model TEXT NOT NULL,
+    embedding TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_embedding_cache_created ON embedding_cache(created_at)`,
+];
+
+// Schema creation runs once per database
+const schemaReady = new WeakMap<SqlDatabase, Promise<void>>();
+
+export class SqlEmbeddingCache implements EmbeddingCache {
+  private db: SqlDatabase;
+  private ttl: number;
+
+  constructor(db: SqlDatabase, ttl: number) {
+    this.db = db;
+    this.ttl = ttl;
+  }
+
+  async getMany(keys: string[]): Promise<Map<string, CachedEmbedding>> {
+    await this.ensureSchema();
+
+    const found = new Map<string, CachedEmbedding>();
+    const freshSince = Date.now() - this.ttl * 1000;
+
+    for (let i = 0; i < keys.length; i += SQL_KEY_CHUNK) {
+      const chunk = keys.slice(i, i + SQL_KEY_CHUNK);
+      const placeholders = chunk.map(() => '?').join(', ');
+      const { results } = await this.db
+        .prepare(
+          `SELECT key, model, embedding FROM embedding_cache
+           WHERE key IN (${placeholders}) AND created_at > ?`
+        )
+        .bind(...chunk, freshSince)
+        .all<{ key: string; model: string; embedding: string }>();
+
+      for (const row of results) {
+        found.set(row.key, {
+          model: row.model,
+          embedding: JSON.parse(row.embedding) as number[],
+        });
+      }
+    }
+
+    return found;
+  }
+
+  async setMany(entries: Map<string, CachedEmbedding>): Promise<void> {
+    await this.ensureSchema();
+    if (entries.size === 0) return;
+
+    const now = Date.now();
+    await this.db.batch([
+      this.db
+        .prepare(`DELETE FROM embedding_cache WHERE created_at <= ?`)
+        .bind(now - this.ttl * 1000),
+      ...Array.from(entries, ([key, entry]) =>
+        this.db
+          .prepare(
+            `INSERT OR REPLACE INTO embedding_cache (key, model, embedding, created_at)
+             VALUES (?, ?, ?, ?)`
+          )
+          .bind(key, entry.model, JSON.stringify(entry.embedding), now)
+      ),
+    ]);
+  }
+
+  private ensureSchema(): Promise<void> {
+    let ready = schemaReady.get(this.db);
+    if (!ready) {
+      ready = this.db
+        .batch(EMBEDDING_CACHE_SCHEMA.map((sql) => this.db.prepare(sql)))
+        .then(() => undefined)
+        .catch((error) => {
+          schemaReady.delete(this.db);
+          throw error;
+        });
+      schemaReady.set(this.db, ready);
+    }
+    return ready;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Cache Resolution
+// -----------------------------------------------------------------------------
+
+let memoryCache: MemoryEmbeddingCache | null = null;
+
+/**
+ * Resolve the embedding cache for a request: the KV namespace when bound,
+ * then the D1 database, otherwise a process-local in-memory cache. Returns
+ * null when caching is disabled.
+ */
+export function useEmbeddingCache(event: H3Event): EmbeddingCache | null {
+  const config = useRuntimeConfig();
+  const cacheConfig = getEmbeddingCacheConfig(event);
+  if (!cacheConfig.enabled) return null;
+
+  const kv = getCloudflareEnv(event)?.[config.embeddingCacheKvBinding] as KvNamespace | undefined;
+  if (kv) return new KvEmbeddingCache(kv, cacheConfig.ttl);
+
+  const db = getSqlBinding(event, config.syncDatabaseBinding);
+  if (db) return new SqlEmbeddingCache(db, cacheConfig.ttl);
+
+  memoryCache ??= new MemoryEmbeddingCache(cacheConfig.maxEntries);
+  return memoryCache;
+}
+
+/**
+ * Cached embeddings for the keys. A failing cache only costs upstream calls,
+ * never the request.
+ */
+export async function lookupCachedEmbeddings(
+  cache: EmbeddingCache | null,
+  keys: string[]
+): Promise<Map<string, CachedEmbedding>> {
+  if (!cache) return new Map();
+
+  try {
+    return await cache.getMany(Array.from(new Set(keys)));
+  } catch (error) {
+    console.warn('Embedding cache lookup failed:', error);
+    return new Map();
+  }
+}
+
+export async function storeCachedEmbeddings(
+  cache: EmbeddingCache | null,
+  entries: Map<string, CachedEmbedding>
+): Promise<void> {
+  try {
+    await cache?.setMany(entries);
+  } catch (error) {
+    console.warn('Embedding cache write failed:', error);
+  }
+}
@@ -0,0 +1,229 @@
+import type { H3Event } from 'h3';
+import type { SqlDatabase } from './sync-store';
+
+// -----------------------------------------------------------------------------
+// Rate Limit Store Interface
+// -----------------------------------------------------------------------------
+
+/**
+ * Counters for fixed-window rate limits. Each counter lives until the end of
+ * its window.
+ */
+export interface RateLimitStore {
+  /**
+   * Add `amount` to a counter unless that would take it over `limit`.
+   * Returns whether the amount was consumed. A negative amount gives units
+   * back.
+   */
+  consume(key: string, amount: number, limit: number, expiresAt: number): Promise<boolean>;
+}
+
+export interface RateLimit {
+  name: string;     // what is limited, for the error message
+  key: string;      // who is limited, e.g. a client ID
+  amount: number;   // units this request consumes
+  limit: number;    // units allowed per window (0 = unlimited)
+  windowMs: number;
+}
+
+// -----------------------------------------------------------------------------
+// Enforcement
+// -----------------------------------------------------------------------------
+
+/**
+ * Settle a consumed amount at what was actually used, e.g. 0 for work that
+ * failed. The difference is given back, or charged past the limit.
+ */
+export type RateLimitSettlement = (used: number) => Promise<void>;
+
+/**
+ * Consume from a rate limit, or reject the request with 429 and a
+ * Retry-After header pointing at the start of the next window
+ */
+export async function enforceRateLimit(
+  event: H3Event,
+  rateLimit: RateLimit
+): Promise<RateLimitSettlement> {
+  if (!rateLimit.limit) return async () => {};
+
+  const now = Date.now();
+  const windowStart = Math.floor(now / rateLimit.windowMs) * rateLimit.windowMs;
+  const resetAt = windowStart + rateLimit.windowMs;
+
+  // A request larger than the whole window's budget can never succeed
+  if (rateLimit.amount > rateLimit.limit) {
+    throw createError({
+      statusCode: 413,
+      message: `Request exceeds the ${rateLimit.name} limit of ${rateLimit.limit}`,
+    });
+  }
+
+  const store = useRateLimitStore(event);
+  const counterKey = `${rateLimit.name}:${rateLimit.key}:${windowStart}`;
+  const allowed = await store.consume(counterKey, rateLimit.amount, rateLimit.limit, resetAt);
+
+  if (!allowed) {
+    const retryAfter = Math.max(1, Math.ceil((resetAt - now) / 1000));
+
+    throw createError({
+      statusCode: 429,
+      message: `Rate limit exceeded: ${rateLimit.limit} ${rateLimit.name}, retry in ${retryAfter}s`,
+      headers: { 'Retry-After': String(retryAfter) },
+    });
+  }
+
+  // Against the window charged, even once the next one has started
+  return async (used) => {
+    if (used === rateLimit.amount) return;
+    await store.consume(counterKey, used - rateLimit.amount, Number.MAX_SAFE_INTEGER, resetAt);
+  };
+}
+
+// -----------------------------------------------------------------------------
+// In-Memory Store (dev server, tests)
+// -----------------------------------------------------------------------------
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+
+  async consume(key: string, amount: number, limit: number, expiresAt: number): Promise<boolean> {
+    this.prune();
+
+    const counter = this.counters.get(key) ?? { count: 0, expiresAt };
+    if (counter.count + amount > limit) return false;
+
+    counter.count += amount;
+    this.counters.set(key, counter);
+    return true;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// KV Store (Cloudflare Workers KV)
+// -----------------------------------------------------------------------------
+
+/**
+ * Minimal subset of the Workers KV API
+ */
+export interface KvNamespace {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
+
+// Shortest expiration KV accepts, in seconds
+const KV_MIN_TTL = 60;
+
+/**
+ * KV is eventually consistent and has no atomic increment, so concurrent
+ * requests can overshoot a limit slightly. Use D1 where limits must be exact.
+ */
+export class KvRateLimitStore implements RateLimitStore {
+  private kv: KvNamespace;
+
+  constructor(kv: KvNamespace) {
+    this.kv = kv;
+  }
+
+  async consume(key: string, amount: number, limit: number, expiresAt: number): Promise<boolean> {
+    const count = Number((await this.kv.get(`ratelimit:${key}`)) ?? 0);
+    if (count + amount > limit) return false;
+
+    await this.kv.put(`ratelimit:${key}`, String(count + amount), {
+      expirationTtl: Math.max(KV_MIN_TTL, Math.ceil((expiresAt - Date.now()) / 1000)),
+    });
+    return true;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// SQL Store (Cloudflare D1)
+// -----------------------------------------------------------------------------
+
+const RATE_LIMIT_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS rate_limits (
+    key TEXT PRIMARY KEY,
+    count INTEGER NOT NULL,
+    expires_at INTEGER NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_rate_limits_expires ON rate_limits(expires_at)`,
+];
+
+// Schema creation runs once per database
+const schemaReady = new WeakMap<SqlDatabase, Promise<void>>();
+
+export class SqlRateLimitStore implements RateLimitStore {
+  private db: SqlDatabase;
+
+  constructor(db: SqlDatabase) {
+    this.db = db;
+  }
+
+  async consume(key: string, amount: number, limit: number, expiresAt: number): Promise<boolean> {
+    await this.ensureSchema();
+
+    // The conditional upsert checks and increments in one statement, and
+    // returns no row when the limit would be exceeded
+    const [, consumed] = await this.db.batch([
+      this.db
+        .prepare(`DELETE FROM rate_limits WHERE expires_at <= ?`)
+        .bind(Date.now()),
+      this.db
+        .prepare(
+          `INSERT INTO rate_limits (key, count, expires_at) VALUES (?, ?, ?)
+           ON CONFLICT(key) DO UPDATE SET count = count + excluded.count
+           WHERE count + excluded.count <= ?
+           RETURNING count`
+        )
+        .bind(key, amount, expiresAt, limit),
+    ]);
+
+    return ((consumed as { results?: unknown[] })?.results?.length ?? 0) > 0;
+  }
+
+  private ensureSchema(): Promise<void> {
+    let ready = schemaReady.get(this.db);
+    if (!ready) {
+      ready = this.db
+        .batch(RATE_LIMIT_SCHEMA.map((sql) => this.db.prepare(sql)))
+        .then(() => undefined)
+        .catch((error) => {
+          schemaReady.delete(this.db);
+          throw error;
+        });
+      schemaReady.set(this.db, ready);
+    }
+    return ready;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Store Resolution
+// -----------------------------------------------------------------------------
+
+let memoryStore: MemoryRateLimitStore | null = null;
+
+/**
+ * Resolve the rate limit store for a request: the KV namespace when bound,
+ * then the D1 database, otherwise a process-local in-memory store.
+ */
+export function useRateLimitStore(event: H3Event): RateLimitStore {
+  const config = useRuntimeConfig();
+
+  const kv = getCloudflareEnv(event)?.[config.rateLimitKvBinding] as KvNamespace | undefined;
+  if (kv) return new KvRateLimitStore(kv);
+
+  const db = getSqlBinding(event, config.syncDatabaseBinding);
+  if (db) {
+    return new SqlRateLimitStore(db);
+  }
+
+  memoryStore ??= new MemoryRateLimitStore();
+  return memoryStore;
+}
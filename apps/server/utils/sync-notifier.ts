@@ -0,0 +1,31 @@
+// -----------------------------------------------------------------------------
+// Sync Change Notifications (in-process pub/sub for live sync channels)
+// -----------------------------------------------------------------------------
+
+import type { StoredChange } from './sync-store';
+
+export interface SyncNotification {
+  tenantId: string;    // tenant whose data changed
+  clientId: string;    // client whose push produced the change
+  syncVersion: number; // latest sync version after the push
+  changes: StoredChange[];
+}
+
+type SyncListener = (notification: SyncNotification) => void;
+
+const listeners = new Set<SyncListener>();
+
+export function subscribeToSyncChanges(listener: SyncListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function notifySyncChange(notification: SyncNotification): void {
+  for (const listener of listeners) {
+    try {
+      listener(notification);
+    } catch (error) {
+      console.error('[Sync] Notification listener error:', error);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import type { H3Event } from 'h3';
+import type { EntityFilter } from '@unimem/types';
+import { matchesFilter, matchesType } from '@unimem/core';
+import type { StoredChange } from './sync-store';
+
+// -----------------------------------------------------------------------------
+// Sync Scope (selective sync)
+// -----------------------------------------------------------------------------
+
+/**
+ * Read the JSON-encoded `scope` query parameter of a sync request
+ */
+export function getSyncScope(event: H3Event): EntityFilter | null {
+  const raw = getQuery(event).scope as string | undefined;
+  if (!raw) return null;
+
+  try {
+    const scope = JSON.parse(raw) as EntityFilter;
+    if (typeof scope !== 'object' || scope === null || Array.isArray(scope)) {
+      throw new Error('scope must be an object');
+    }
+    return scope;
+  } catch {
+    throw createError({
+      statusCode: 400,
+      message: 'scope must be a JSON-encoded EntityFilter',
+    });
+  }
+}
+
+/**
+ * Whether a change concerns an entity inside the scope. Tombstones only
+ * carry the entity type, so they are checked against that alone.
+ */
+export function isInSyncScope(
+  change: StoredChange,
+  scope: EntityFilter | null
+): boolean {
+  if (!scope) return true;
+  if (change.tombstone) return matchesType(change.tombstone.entityType, scope);
+  return !!change.entity && matchesFilter(change.entity, scope);
+}
@@ -0,0 +1,601 @@
+import type { H3Event } from 'h3';
+import type { Entity, Tombstone } from '@unimem/types';
+
+// -----------------------------------------------------------------------------
+// Sync Store Interface
+// -----------------------------------------------------------------------------
+
+/**
+ * A single entity change as recorded by the server: either a new version of
+ * the entity or its tombstone. `seq` is the server-assigned, strictly
+ * increasing sync version.
+ */
+export interface StoredChange {
+  seq: number;
+  entityId: string;
+  clientId: string;
+  entity?: Entity;
+  tombstone?: Tombstone;
+}
+
+export interface ChangeQuery {
+  since: number;
+  excludeClientId: string;
+  limit: number;
+}
+
+export interface ChangePage {
+  changes: StoredChange[];
+  hasMore: boolean;
+  /**
+   * Cursor the client should resume from on its next pull
+   */
+  syncVersion: number;
+}
+
+export interface TenantUsage {
+  entityCount: number; // live entities, tombstones excluded
+  bytes: number;       // size of the current entity and tombstone payloads
+}
+
+/**
+ * Change history of a single tenant (a user or workspace). Each tenant has
+ * its own store, so no method can reach another tenant's data.
+ */
+export interface SyncStore {
+  /**
+   * Persist entities pushed by a client, assigning each a new sync version
+   */
+  applyChanges(clientId: string, entities: Entity[]): Promise<StoredChange[]>;
+
+  /**
+   * Persist deletes pushed by a client, replacing the entities with tombstones
+   */
+  applyTombstones(
+    clientId: string,
+    tombstones: Tombstone[]
+  ): Promise<StoredChange[]>;
+
+  /**
+   * Current server state of the given entities, keyed by entity ID
+   */
+  getCurrent(entityIds: string[]): Promise<Map<string, StoredChange>>;
+
+  /**
+   * A past version of an entity, identified by its HLC sync version
+   */
+  getVersion(entityId: string, syncVersion: string): Promise<Entity | null>;
+
+  /**
+   * Latest state of entities changed after `since`, oldest first
+   */
+  getChangesSince(query: ChangeQuery): Promise<ChangePage>;
+
+  /**
+   * Highest sync version assigned so far
+   */
+  getLatestSeq(): Promise<number>;
+
+  /**
+   * Record that a client has seen every change up to `seq`
+   */
+  acknowledge(clientId: string, seq: number): Promise<void>;
+
+  /**
+   * Purge tombstones recorded before `before` (ms since epoch) that every
+   * known client has acknowledged, along with the history of their entities.
+   * Returns the number of tombstones purged.
+   */
+  collectGarbage(before: number): Promise<number>;
+
+  /**
+   * What the tenant currently stores, for quota checks
+   */
+  getUsage(): Promise<TenantUsage>;
+}
+
+// -----------------------------------------------------------------------------
+// In-Memory Store (dev server, tests)
+// -----------------------------------------------------------------------------
+
+export class MemorySyncStore implements SyncStore {
+  private seq = 0;
+  private log: StoredChange[] = [];
+  private current = new Map<string, StoredChange>();
+  private deletedAt = new Map<string, number>();
+  private acknowledged = new Map<string, number>();
+
+  async applyChanges(
+    clientId: string,
+    entities: Entity[]
+  ): Promise<StoredChange[]> {
+    return entities.map((entity) =>
+      this.record({ seq: ++this.seq, entityId: entity.id, clientId, entity })
+    );
+  }
+
+  async applyTombstones(
+    clientId: string,
+    tombstones: Tombstone[]
+  ): Promise<StoredChange[]> {
+    return tombstones.map((tombstone) => {
+      this.deletedAt.set(tombstone.entityId, Date.now());
+      return this.record({
+        seq: ++this.seq,
+        entityId: tombstone.entityId,
+        clientId,
+        tombstone,
+      });
+    });
+  }
+
+  async getCurrent(entityIds: string[]): Promise<Map<string, StoredChange>> {
+    const found = new Map<string, StoredChange>();
+    for (const id of entityIds) {
+      const change = this.current.get(id);
+      if (change) found.set(id, change);
+    }
+    return found;
+  }
+
+  async getVersion(entityId: string, syncVersion: string): Promise<Entity | null> {
+    for (let i = this.log.length - 1; i >= 0; i--) {
+      const change = this.log[i];
+      if (change.entityId === entityId && change.entity?.syncVersion === syncVersion) {
+        return change.entity;
+      }
+    }
+    return null;
+  }
+
+  async getChangesSince(query: ChangeQuery): Promise<ChangePage> {
+    const latest = this.seq;
+    const matching = Array.from(this.current.values())
+      .filter(
+        (c) =>
+          c.seq > query.since &&
+          c.seq <= latest &&
+          c.clientId !== query.excludeClientId
+      )
+      .sort((a, b) => a.seq - b.seq);
+
+    return toPage(matching, query.limit, latest);
+  }
+
+  async getLatestSeq(): Promise<number> {
+    return this.seq;
+  }
+
+  async acknowledge(clientId: string, seq: number): Promise<void> {
+    const previous = this.acknowledged.get(clientId) ?? 0;
+    this.acknowledged.set(clientId, Math.max(previous, seq));
+  }
+
+  async collectGarbage(before: number): Promise<number> {
+    if (this.acknowledged.size === 0) return 0;
+    const acknowledged = Math.min(...this.acknowledged.values());
+
+    const purged = new Set<string>();
+    for (const [entityId, deletedAt] of this.deletedAt) {
+      const change = this.current.get(entityId);
+      if (change?.tombstone && deletedAt < before && change.seq <= acknowledged) {
+        purged.add(entityId);
+      }
+    }
+
+    for (const entityId of purged) {
+      this.current.delete(entityId);
+      this.deletedAt.delete(entityId);
+    }
+    this.log = this.log.filter((change) => !purged.has(change.entityId));
+
+    return purged.size;
+  }
+
+  async getUsage(): Promise<TenantUsage> {
+    let entityCount = 0;
+    let bytes = 0;
+    for (const change of this.current.values()) {
+      if (change.entity) entityCount++;
+      bytes += getPayloadSize(change.entity ?? change.tombstone);
+    }
+    return { entityCount, bytes };
+  }
+
+  private record(change: StoredChange): StoredChange {
+    this.log.push(change);
+    this.current.set(change.entityId, change);
+    return change;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// SQL Store (Cloudflare D1, or any SQLite exposing the same API)
+// -----------------------------------------------------------------------------
+
+/**
+ * Minimal subset of the D1 API. A local SQLite or PGlite wrapper exposing
+ * the same shape can back the store in tests.
+ */
+export interface SqlDatabase {
+  prepare(query: string): SqlStatement;
+  batch(statements: SqlStatement[]): Promise<unknown[]>;
+}
+
+export interface SqlStatement {
+  bind(...values: unknown[]): SqlStatement;
+  all<T = Record<string, unknown>>(): Promise<{ results: T[] }>;
+  first<T = Record<string, unknown>>(): Promise<T | null>;
+  run(): Promise<unknown>;
+}
+
+const SYNC_STORE_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS sync_changes (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    tenant_id TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    client_id TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE TABLE IF NOT EXISTS sync_entities (
+    tenant_id TEXT NOT NULL,
+    id TEXT NOT NULL,
+    client_id TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    deleted_at INTEGER,
+    PRIMARY KEY (tenant_id, id)
+  )`,
+  `CREATE TABLE IF NOT EXISTS sync_clients (
+    tenant_id TEXT NOT NULL,
+    client_id TEXT NOT NULL,
+    acknowledged_seq INTEGER NOT NULL,
+    last_seen_at INTEGER NOT NULL,
+    PRIMARY KEY (tenant_id, client_id)
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_sync_changes_entity ON sync_changes(tenant_id, entity_id)`,
+  `CREATE INDEX IF NOT EXISTS idx_sync_entities_seq ON sync_entities(tenant_id, seq)`,
+  `CREATE INDEX IF NOT EXISTS idx_sync_entities_deleted ON sync_entities(tenant_id, deleted_at)`,
+];
+
+interface SyncEntityRow {
+  id: string;
+  client_id: string;
+  payload: string;
+  seq: number;
+  deleted_at: number | null;
+}
+
+// Schema creation runs once per database, however many tenant stores use it
+const schemaReady = new WeakMap<SqlDatabase, Promise<void>>();
+
+/**
+ * One tenant's view of the shared tables: every statement is bound to its
+ * tenant ID.
+ */
+export class SqlSyncStore implements SyncStore {
+  private db: SqlDatabase;
+  private tenantId: string;
+
+  constructor(db: SqlDatabase, tenantId: string) {
+    this.db = db;
+    this.tenantId = tenantId;
+  }
+
+  async applyChanges(
+    clientId: string,
+    entities: Entity[]
+  ): Promise<StoredChange[]> {
+    await this.ensureSchema();
+
+    const applied: StoredChange[] = [];
+    for (const entity of entities) {
+      const seq = await this.insertChange(clientId, entity.id, entity, null);
+      applied.push({ seq, entityId: entity.id, clientId, entity });
+    }
+
+    return applied;
+  }
+
+  async applyTombstones(
+    clientId: string,
+    tombstones: Tombstone[]
+  ): Promise<StoredChange[]> {
+    await this.ensureSchema();
+
+    const applied: StoredChange[] = [];
+    for (const tombstone of tombstones) {
+      const seq = await this.insertChange(
+        clientId,
+        tombstone.entityId,
+        tombstone,
+        Date.now()
+      );
+      applied.push({ seq, entityId: tombstone.entityId, clientId, tombstone });
+    }
+
+    return applied;
+  }
+
+  async getCurrent(entityIds: string[]): Promise<Map<string, StoredChange>> {
+    await this.ensureSchema();
+
+    const found = new Map<string, StoredChange>();
+    if (entityIds.length === 0) return found;
+
+    const placeholders = entityIds.map(() => '?').join(', ');
+    const { results } = await this.db
+      .prepare(
+        `SELECT id, client_id, payload, seq, deleted_at FROM sync_entities
+         WHERE tenant_id = ? AND id IN (${placeholders})`
+      )
+      .bind(this.tenantId, ...entityIds)
+      .all<SyncEntityRow>();
+
+    for (const row of results) {
+      found.set(row.id, rowToChange(row));
+    }
+    return found;
+  }
+
+  async getVersion(entityId: string, syncVersion: string): Promise<Entity | null> {
+    await this.ensureSchema();
+
+    const row = await this.db
+      .prepare(
+        `SELECT payload FROM sync_changes
+         WHERE tenant_id = ? AND entity_id = ?
+           AND json_extract(payload, '$.syncVersion') = ?
+         ORDER BY seq DESC
+         LIMIT 1`
+      )
+      .bind(this.tenantId, entityId, syncVersion)
+      .first<{ payload: string }>();
+
+    return row ? (JSON.parse(row.payload) as Entity) : null;
+  }
+
+  async getChangesSince(query: ChangeQuery): Promise<ChangePage> {
+    await this.ensureSchema();
+
+    const latest = await this.getLatestSeq();
+    const { results } = await this.db
+      .prepare(
+        `SELECT id, client_id, payload, seq, deleted_at FROM sync_entities
+         WHERE tenant_id = ? AND seq > ? AND seq <= ? AND client_id != ?
+         ORDER BY seq ASC
+         LIMIT ?`
+      )
+      .bind(this.tenantId, query.since, latest, query.excludeClientId, query.limit + 1)
+      .all<SyncEntityRow>();
+
+    return toPage(results.map(rowToChange), query.limit, latest);
+  }
+
+  async getLatestSeq(): Promise<number> {
+    await this.ensureSchema();
+
+    const row = await this.db
+      .prepare(`SELECT MAX(seq) AS seq FROM sync_changes WHERE tenant_id = ?`)
+      .bind(this.tenantId)
+      .first<{ seq: number | null }>();
+    return Number(row?.seq ?? 0);
+  }
+
+  async acknowledge(clientId: string, seq: number): Promise<void> {
+    await this.ensureSchema();
+
+    await this.db
+      .prepare(
+        `INSERT INTO sync_clients (tenant_id, client_id, acknowledged_seq, last_seen_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(tenant_id, client_id) DO UPDATE SET
+           acknowledged_seq = MAX(acknowledged_seq, excluded.acknowledged_seq),
+           last_seen_at = excluded.last_seen_at`
+      )
+      .bind(this.tenantId, clientId, seq, Date.now())
+      .run();
+  }
+
+  async collectGarbage(before: number): Promise<number> {
+    await this.ensureSchema();
+
+    const row = await this.db
+      .prepare(
+        `SELECT MIN(acknowledged_seq) AS seq FROM sync_clients WHERE tenant_id = ?`
+      )
+      .bind(this.tenantId)
+      .first<{ seq: number | null }>();
+    if (row?.seq === null || row?.seq === undefined) return 0;
+
+    const acknowledged = Number(row.seq);
+    const purgeable = `SELECT id FROM sync_entities
+      WHERE tenant_id = ? AND deleted_at IS NOT NULL AND deleted_at < ? AND seq <= ?`;
+    const params = [this.tenantId, before, acknowledged];
+
+    const { results } = await this.db
+      .prepare(purgeable)
+      .bind(...params)
+      .all<{ id: string }>();
+    if (results.length === 0) return 0;
+
+    await this.db.batch([
+      this.db
+        .prepare(
+          `DELETE FROM sync_changes
+           WHERE tenant_id = ? AND entity_id IN (${purgeable})`
+        )
+        .bind(this.tenantId, ...params),
+      this.db
+        .prepare(
+          `DELETE FROM sync_entities
+           WHERE tenant_id = ? AND id IN (${purgeable})`
+        )
+        .bind(this.tenantId, ...params),
+    ]);
+
+    return results.length;
+  }
+
+  async getUsage(): Promise<TenantUsage> {
+    await this.ensureSchema();
+
+    const row = await this.db
+      .prepare(
+        `SELECT
+           COUNT(*) - COUNT(deleted_at) AS entity_count,
+           SUM(LENGTH(CAST(payload AS BLOB))) AS bytes
+         FROM sync_entities WHERE tenant_id = ?`
+      )
+      .bind(this.tenantId)
+      .first<{ entity_count: number; bytes: number | null }>();
+
+    return {
+      entityCount: Number(row?.entity_count ?? 0),
+      bytes: Number(row?.bytes ?? 0),
+    };
+  }
+
+  /**
+   * Append a change to the log and make it the entity's current state
+   */
+  private async insertChange(
+    clientId: string,
+    entityId: string,
+    value: Entity | Tombstone,
+    deletedAt: number | null
+  ): Promise<number> {
+    const payload = JSON.stringify(value);
+
+    // One batch (a transaction on D1), so a pull never sees the change in
+    // the log before the entity's current state
+    const [inserted] = await this.db.batch([
+      this.db
+        .prepare(
+          `INSERT INTO sync_changes (tenant_id, entity_id, client_id, payload, created_at)
+           VALUES (?, ?, ?, ?, ?) RETURNING seq`
+        )
+        .bind(this.tenantId, entityId, clientId, payload, Date.now()),
+      this.db
+        .prepare(
+          `INSERT INTO sync_entities (tenant_id, id, client_id, payload, seq, deleted_at)
+           SELECT tenant_id, entity_id, client_id, payload, seq, ? FROM sync_changes
+           WHERE seq = last_insert_rowid()
+           ON CONFLICT(tenant_id, id) DO UPDATE SET
+             client_id = excluded.client_id,
+             payload = excluded.payload,
+             seq = excluded.seq,
+             deleted_at = excluded.deleted_at`
+        )
+        .bind(deletedAt),
+    ]);
+
+    const seq = (inserted as { results?: Array<{ seq: number }> })?.results?.[0]?.seq;
+    if (seq === undefined) {
+      throw new Error(`Failed to record change for entity ${entityId}`);
+    }
+
+    return Number(seq);
+  }
+
+  private ensureSchema(): Promise<void> {
+    let ready = schemaReady.get(this.db);
+    if (!ready) {
+      ready = this.db
+        .batch(SYNC_STORE_SCHEMA.map((sql) => this.db.prepare(sql)))
+        .then(() => undefined)
+        .catch((error) => {
+          schemaReady.delete(this.db);
+          throw error;
+        });
+      schemaReady.set(this.db, ready);
+    }
+    return ready;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Store Resolution
+// -----------------------------------------------------------------------------
+
+const memoryStores = new Map<string, MemorySyncStore>();
+
+/**
+ * Resolve a tenant's sync store for a request: the D1 binding when deployed
+ * to Cloudflare, otherwise a process-local in-memory store.
+ */
+export function useSyncStore(event: H3Event, tenantId: string): SyncStore {
+  const binding = getSqlBinding(event, useRuntimeConfig().syncDatabaseBinding);
+
+  if (binding) {
+    return new SqlSyncStore(binding, tenantId);
+  }
+
+  let store = memoryStores.get(tenantId);
+  if (!store) {
+    store = new MemorySyncStore();
+    memoryStores.set(tenantId, store);
+  }
+  return store;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Bindings of the Cloudflare Worker handling the request, if any
+ */
+export function getCloudflareEnv(event: H3Event): Record<string, unknown> | undefined {
+  return (
+    event.req as { runtime?: { cloudflare?: { env?: Record<string, unknown> } } }
+  ).runtime?.cloudflare?.env;
+}
+
+/**
+ * The Cloudflare D1 binding with the given name, when running on Workers
+ */
+export function getSqlBinding(event: H3Event, name: string): SqlDatabase | undefined {
+  return getCloudflareEnv(event)?.[name] as SqlDatabase | undefined;
+}
+
+/**
+ * Stored size of an entity or tombstone, in bytes of its JSON payload
+ */
+export function getPayloadSize(value: unknown): number {
+  return new TextEncoder().encode(JSON.stringify(value)).length;
+}
+
+function rowToChange(row: SyncEntityRow): StoredChange {
+  const change: StoredChange = {
+    seq: Number(row.seq),
+    entityId: row.id,
+    clientId: row.client_id,
+  };
+
+  if (row.deleted_at === null) {
+    change.entity = JSON.parse(row.payload) as Entity;
+  } else {
+    change.tombstone = JSON.parse(row.payload) as Tombstone;
+  }
+
+  return change;
+}
+
+function toPage(
+  changes: StoredChange[],
+  limit: number,
+  latest: number
+): ChangePage {
+  const hasMore = changes.length > limit;
+  const page = changes.slice(0, limit);
+
+  return {
+    changes: page,
+    hasMore,
+    // Without more pages, everything up to `latest` was either returned or
+    // written by the caller, so the cursor can skip ahead.
+    syncVersion: hasMore ? page[page.length - 1].seq : latest,
+  };
+}
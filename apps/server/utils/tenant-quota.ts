@@ -0,0 +1,74 @@
+import type { H3Event } from 'h3';
+import type { Entity, Tombstone } from '@unimem/types';
+import type { StoredChange, SyncStore, TenantUsage } from './sync-store';
+
+export interface TenantQuota {
+  maxEntities: number; // 0 = unlimited
+  maxBytes: number;    // 0 = unlimited
+}
+
+export function getTenantQuota(event: H3Event): TenantQuota {
+  const quota = useRuntimeConfig(event).tenantQuota as Partial<TenantQuota> | undefined;
+
+  return {
+    maxEntities: Number(quota?.maxEntities ?? 0),
+    maxBytes: Number(quota?.maxBytes ?? 0),
+  };
+}
+
+/**
+ * Reject a push that would take the tenant over its quota. Only growth is
+ * rejected: deletes, and edits that shrink a tenant already over its quota
+ * (e.g. after the quota was lowered), still go through.
+ */
+export async function assertWithinQuota(
+  event: H3Event,
+  store: SyncStore,
+  entities: Entity[],
+  tombstones: Tombstone[]
+): Promise<void> {
+  const quota = getTenantQuota(event);
+  if (entities.length === 0 || (!quota.maxEntities && !quota.maxBytes)) return;
+
+  const usage = await store.getUsage();
+  const current = await store.getCurrent([
+    ...entities.map((entity) => entity.id),
+    ...tombstones.map((tombstone) => tombstone.entityId),
+  ]);
+
+  const projected: TenantUsage = { ...usage };
+  const replace = (previous: StoredChange | undefined, next: Entity | Tombstone, live: boolean) => {
+    if (previous) {
+      projected.bytes -= getPayloadSize(previous.entity ?? previous.tombstone);
+      if (previous.entity) projected.entityCount--;
+    }
+    projected.bytes += getPayloadSize(next);
+    if (live) projected.entityCount++;
+  };
+
+  for (const entity of entities) {
+    replace(current.get(entity.id), entity, true);
+  }
+  for (const tombstone of tombstones) {
+    replace(current.get(tombstone.entityId), tombstone, false);
+  }
+
+  const overEntities =
+    quota.maxEntities > 0 &&
+    projected.entityCount > quota.maxEntities &&
+    projected.entityCount > usage.entityCount;
+  const overBytes =
+    quota.maxBytes > 0 &&
+    projected.bytes > quota.maxBytes &&
+    projected.bytes > usage.bytes;
+
+  if (overEntities || overBytes) {
+    throw createError({
+      statusCode: 413,
+      message: overEntities
+        ? `Tenant quota exceeded: at most ${quota.maxEntities} entities`
+        : `Tenant quota exceeded: at most ${quota.maxBytes} bytes`,
+      data: { usage, quota },
+    });
+  }
+}
@@ -0,0 +1,232 @@
+import type { H3Event } from 'h3';
+import type { SqlDatabase } from './sync-store';
+
+// -----------------------------------------------------------------------------
+// Usage Ledger Interface
+// -----------------------------------------------------------------------------
+
+/**
+ * One metered request to a paid upstream API
+ */
+export interface UsageEntry {
+  tenantId: string;
+  clientId: string;
+  model: string;
+  texts: number;
+  tokens: number; // approximate when the upstream does not report usage
+  cost: number;   // USD
+  createdAt: number; // ms since epoch
+}
+
+export interface UsageQuery {
+  tenantId?: string;
+  clientId?: string;
+  since?: number;
+  until?: number;
+}
+
+/**
+ * Usage totals of one client
+ */
+export interface UsageSummary {
+  tenantId: string;
+  clientId: string;
+  requests: number;
+  texts: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface UsageLedger {
+  record(entry: UsageEntry): Promise<void>;
+
+  /**
+   * Totals per client over the matching entries, most expensive first
+   */
+  summarize(query: UsageQuery): Promise<UsageSummary[]>;
+}
+
+// -----------------------------------------------------------------------------
+// In-Memory Ledger (dev server, tests)
+// -----------------------------------------------------------------------------
+
+export class MemoryUsageLedger implements UsageLedger {
+  private entries: UsageEntry[] = [];
+
+  async record(entry: UsageEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async summarize(query: UsageQuery): Promise<UsageSummary[]> {
+    const summaries = new Map<string, UsageSummary>();
+
+    for (const entry of this.entries) {
+      if (query.tenantId && entry.tenantId !== query.tenantId) continue;
+      if (query.clientId && entry.clientId !== query.clientId) continue;
+      if (query.since !== undefined && entry.createdAt < query.since) continue;
+      if (query.until !== undefined && entry.createdAt >= query.until) continue;
+
+      const key = `${entry.tenantId}\n${entry.clientId}`;
+      const summary = summaries.get(key) ?? {
+        tenantId: entry.tenantId,
+        clientId: entry.clientId,
+        requests: 0,
+        texts: 0,
+        tokens: 0,
+        cost: 0,
+      };
+      summary.requests++;
+      summary.texts += entry.texts;
+      summary.tokens += entry.tokens;
+      summary.cost += entry.cost;
+      summaries.set(key, summary);
+    }
+
+    return Array.from(summaries.values()).sort((a, b) => b.cost - a.cost);
+  }
+}
+
+// -----------------------------------------------------------------------------
+// SQL Ledger (Cloudflare D1)
+// -----------------------------------------------------------------------------
+
+const USAGE_LEDGER_SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS usage_ledger (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tenant_id TEXT NOT NULL,
+    client_id TEXT NOT NULL,
+    model TEXT NOT NULL,
+    texts INTEGER NOT NULL,
+    tokens INTEGER NOT NULL,
+    cost REAL NOT NULL,
+    created_at INTEGER NOT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_usage_ledger_client ON usage_ledger(tenant_id, client_id, created_at)`,
+  `CREATE INDEX IF NOT EXISTS idx_usage_ledger_created ON usage_ledger(created_at)`,
+];
+
+// Schema creation runs once per database
+const schemaReady = new WeakMap<SqlDatabase, Promise<void>>();
+
+export class SqlUsageLedger implements UsageLedger {
+  private db: SqlDatabase;
+
+  constructor(db: SqlDatabase) {
+    this.db = db;
+  }
+
+  async record(entry: UsageEntry): Promise<void> {
+    await this.ensureSchema();
+
+    await this.db
+      .prepare(
+        `INSERT INTO usage_ledger
+           (tenant_id, client_id, model, texts, tokens, cost, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        entry.tenantId,
+        entry.clientId,
+        entry.model,
+        entry.texts,
+        entry.tokens,
+        entry.cost,
+        entry.createdAt
+      )
+      .run();
+  }
+
+  async summarize(query: UsageQuery): Promise<UsageSummary[]> {
+    await this.ensureSchema();
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+    if (query.tenantId) {
+      conditions.push('tenant_id = ?');
+      params.push(query.tenantId);
+    }
+    if (query.clientId) {
+      conditions.push('client_id = ?');
+      params.push(query.clientId);
+    }
+    if (query.since !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(query.since);
+    }
+    if (query.until !== undefined) {
+      conditions.push('created_at < ?');
+      params.push(query.until);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { results } = await this.db
+      .prepare(
+        `SELECT tenant_id, client_id, COUNT(*) AS requests, SUM(texts) AS texts,
+                SUM(tokens) AS tokens, SUM(cost) AS cost
+         FROM usage_ledger ${where}
+         GROUP BY tenant_id, client_id
+         ORDER BY cost DESC`
+      )
+      .bind(...params)
+      .all<{
+        tenant_id: string;
+        client_id: string;
+        requests: number;
+        texts: number;
+        tokens: number;
+        cost: number;
+      }>();
+
+    return results.map((row) => ({
+      tenantId: row.tenant_id,
+      clientId: row.client_id,
+      requests: Number(row.requests),
+      texts: Number(row.texts),
+      tokens: Number(row.tokens),
+      cost: Number(row.cost),
+    }));
+  }
+
+  private ensureSchema(): Promise<void> {
+    let ready = schemaReady.get(this.db);
+    if (!ready) {
+      ready = this.db
+        .batch(USAGE_LEDGER_SCHEMA.map((sql) => this.db.prepare(sql)))
+        .then(() => undefined)
+        .catch((error) => {
+          schemaReady.delete(this.db);
+          throw error;
+        });
+      schemaReady.set(this.db, ready);
+    }
+    return ready;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Ledger Resolution
+// -----------------------------------------------------------------------------
+
+let memoryLedger: MemoryUsageLedger | null = null;
+
+/**
+ * Resolve the usage ledger for a request: the D1 binding when deployed to
+ * Cloudflare, otherwise a process-local in-memory ledger.
+ */
+export function useUsageLedger(event: H3Event): UsageLedger {
+  const binding = getSqlBinding(event, useRuntimeConfig().syncDatabaseBinding);
+
+  if (binding) {
+    return new SqlUsageLedger(binding);
+  }
+
+  memoryLedger ??= new MemoryUsageLedger();
+  return memoryLedger;
+}
+
+/**
+ * Rough token count of texts for a BPE tokenizer: about four characters each
+ */
+export function estimateTokens(texts: string[]): number {
+  return texts.reduce((total, text) => total + Math.ceil(text.length / 4), 0);
+}
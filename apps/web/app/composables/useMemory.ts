@@ -5,8 +5,13 @@ import type {
   SearchResponse,
   EntityFilter,
 } from '@unimem/types';
-import { MemoryEngine } from '@unimem/core';
-import { DatabaseClient, PGliteStorageAdapter } from '@unimem/db';
+import {
+  MemoryEngine,
+  VectorIndex,
+  createEmbeddingProvider,
+  loadLexicalWeights,
+} from '@unimem/core';
+import { DatabaseClient, PGliteStorageAdapter, PGliteVectorIndexStore } from '@unimem/db';
 
 // Global state
 const isInitialized = ref(false);
@@ -16,11 +21,24 @@ const stats = ref<MemoryStats | null>(null);
 let dbClient: DatabaseClient | null = null;
 let memoryEngine: MemoryEngine | null = null;
 
+// Offline search weights are kept next to the vector index snapshot
+const LEXICAL_WEIGHTS = 'lexical-weights';
+
+export interface MemoryInitOptions {
+  /**
+   * Device API key for the sync server. Enables semantic search through the
+   * server's /api/embed, since the browser cannot hold an upstream key.
+   */
+  apiKey?: string;
+}
+
 export function useMemory() {
+  const config = useRuntimeConfig();
+
   /**
    * Initialize the memory system
    */
-  async function initialize() {
+  async function initialize(options: MemoryInitOptions = {}) {
     if (isInitialized.value) return;
 
     isLoading.value = true;
@@ -38,12 +56,36 @@ export function useMemory() {
       const storageAdapter = new PGliteStorageAdapter(dbClient);
 
       // Create memory engine
+      // Semantic embeddings through the server when signed in, otherwise
+      // offline lexical ones so search still works
+      const serverUrl = config.public.syncServerUrl;
       memoryEngine = new MemoryEngine({
         storage: storageAdapter,
-        // Note: Embedding provider would be configured here
-        // embedding: createEmbeddingProvider({ type: 'openai', apiKey: ... }),
+        embedding:
+          serverUrl && options.apiKey
+            ? createEmbeddingProvider({
+                type: 'proxy',
+                baseUrl: serverUrl,
+                apiKey: options.apiKey,
+              })
+            : createEmbeddingProvider({
+                type: 'lexical',
+                // IDF weights fitted on the stored notes once, then kept
+                weights: await loadLexicalWeights(
+                  new PGliteVectorIndexStore(dbClient, LEXICAL_WEIGHTS),
+                  storageAdapter
+                ) ?? undefined,
+              }),
+        // Without pgvector, search through an in-process index instead of
+        // scanning every embedding
+        vectorIndex: dbClient.hasVectorSupport()
+          ? undefined
+          : new VectorIndex({ store: new PGliteVectorIndexStore(dbClient) }),
       });
 
+      // Embed whatever was saved but not yet indexed before the last reload
+      memoryEngine.getIndexer()?.start();
+
       // Load initial stats
       stats.value = await memoryEngine.getStats();
 
@@ -56,6 +98,19 @@ export function useMemory() {
     }
   }
 
+  /**
+   * Stop background indexing and close the database
+   */
+  async function close(): Promise<void> {
+    await memoryEngine?.stop();
+    await dbClient?.close();
+
+    memoryEngine = null;
+    dbClient = null;
+    stats.value = null;
+    isInitialized.value = false;
+  }
+
   /**
    * Get the memory engine instance
    */
@@ -134,6 +189,21 @@ export function useMemory() {
     return getEngine().searchSimilar<T>(query, { filter });
   }
 
+  /**
+   * Fit the offline search weights on the current notes. They apply from
+   * the next start, which re-embeds every note.
+   */
+  async function refitSearchWeights(): Promise<void> {
+    if (!dbClient) {
+      throw new Error('Memory engine not initialized');
+    }
+    await loadLexicalWeights(
+      new PGliteVectorIndexStore(dbClient, LEXICAL_WEIGHTS),
+      new PGliteStorageAdapter(dbClient),
+      { refit: true }
+    );
+  }
+
   /**
    * Refresh stats
    */
@@ -158,6 +228,7 @@ export function useMemory() {
 
     // Methods
     initialize,
+    close,
     getEngine,
     createEntity,
     getEntity,
@@ -165,6 +236,7 @@ export function useMemory() {
     deleteEntity,
     queryEntities,
     search,
+    refitSearchWeights,
     refreshStats,
   };
 }
@@ -0,0 +1,132 @@
+// =============================================================================
+// Chunking - Split long entity content into overlapping passages
+// =============================================================================
+
+export interface ChunkOptions {
+  maxChars?: number; // upper bound on a chunk's length
+  overlap?: number;  // characters repeated from the end of the previous chunk
+}
+
+const DEFAULT_MAX_CHARS = 1000;
+const DEFAULT_OVERLAP = 200;
+
+interface Section {
+  heading: string | null;
+  paragraphs: string[];
+}
+
+/**
+ * Split markdown into chunks along headings, then paragraphs. Each chunk
+ * stays under `maxChars` and starts with its section heading, so it reads on
+ * its own; consecutive chunks of a section share `overlap` characters so a
+ * passage cut at a boundary still matches. Text that fits one chunk comes
+ * back as a single chunk.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(maxChars / 2));
+
+  const trimmed = text.trim();
+  if (trimmed.length === 0) return [];
+  if (trimmed.length <= maxChars) return [trimmed];
+
+  const chunks: string[] = [];
+
+  for (const section of splitSections(trimmed)) {
+    const prefix = section.heading ? `${section.heading}\n\n` : '';
+    const budget = Math.max(maxChars - prefix.length, overlap * 2);
+
+    // Pieces leave room for the overlap carried in front of them
+    const pieceSize = Math.max(budget - overlap - 2, 1);
+    const pieces = section.paragraphs.flatMap((p) => splitLong(p, pieceSize));
+
+    let current = '';
+    let hasNewText = false;
+    for (const piece of pieces) {
+      if (hasNewText && current.length + piece.length + 2 > budget) {
+        chunks.push(prefix + current);
+        current = tail(current, overlap);
+        hasNewText = false;
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+      hasNewText = true;
+    }
+    if (hasNewText) chunks.push(prefix + current);
+
+    // A heading with no body still marks where a topic starts
+    if (section.heading && section.paragraphs.length === 0) {
+      chunks.push(section.heading);
+    }
+  }
+
+  return chunks;
+}
+
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let section: Section = { heading: null, paragraphs: [] };
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    const joined = paragraph.join('\n').trim();
+    if (joined) section.paragraphs.push(joined);
+    paragraph = [];
+  };
+
+  for (const line of text.split('\n')) {
+    if (/^#{1,6}\s/.test(line)) {
+      endParagraph();
+      if (section.heading || section.paragraphs.length > 0) sections.push(section);
+      section = { heading: line.trim(), paragraphs: [] };
+    } else if (line.trim() === '') {
+      endParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+
+  endParagraph();
+  if (section.heading || section.paragraphs.length > 0) sections.push(section);
+  return sections;
+}
+
+/**
+ * Break a paragraph longer than `maxChars` at sentence ends, or at word
+ * boundaries when a single sentence is too long
+ */
+function splitLong(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph];
+
+  const pieces: string[] = [];
+  let rest = paragraph;
+
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const sentenceEnd = Math.max(
+      window.lastIndexOf('. '),
+      window.lastIndexOf('! '),
+      window.lastIndexOf('? ')
+    );
+    const wordEnd = window.lastIndexOf(' ');
+    const cut =
+      sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : wordEnd > maxChars / 2 ? wordEnd : maxChars;
+
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * The last `length` characters of a chunk, starting on a word boundary
+ */
+function tail(text: string, length: number): string {
+  if (length <= 0) return '';
+  if (text.length <= length) return text;
+
+  const start = text.length - length;
+  const space = text.indexOf(' ', start);
+  return (space === -1 ? text.slice(start) : text.slice(space + 1)).trim();
+}
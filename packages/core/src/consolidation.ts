@@ -128,7 +128,7 @@ export class ConsolidationEngine {
       const targetLayer = strategy.getTargetLayer(entity);
 
       if (targetLayer === null) {
-        // Archive (delete) the entity
+        // Archive (delete) the entity; its tombstone syncs the delete
         await this.engine.deleteEntity(entity.id);
         archivedCount++;
       } else if (targetLayer !== entity.memoryLayer) {
@@ -2,19 +2,50 @@
 // Embedding Providers - Vector embedding generation
 // =============================================================================
 
-import type { EmbeddingProvider } from './memory-engine';
+import type { EmbeddingProvider, StorageAdapter } from './memory-engine';
 
 // -----------------------------------------------------------------------------
 // Embedding Provider Factory
 // -----------------------------------------------------------------------------
 
-export type EmbeddingProviderType = 'openai' | 'local' | 'mock';
+export type EmbeddingProviderType = 'openai' | 'local' | 'mock' | 'proxy' | 'lexical';
 
 export interface EmbeddingProviderConfig {
   type: EmbeddingProviderType;
   apiKey?: string;
   model?: string;
   baseUrl?: string;
+
+  /**
+   * Proxy only: bearer token for the Unimem server, e.g. an access token
+   * shared with the sync client. Takes precedence over apiKey.
+   */
+  getAuthToken?: () => string | Promise<string>;
+
+  /**
+   * OpenAI: output size for text-embedding-3 models (native size when
+   * omitted; not sent for older models).
+   * Proxy: dimensions to report before the server has answered.
+   * Lexical: size of the hashed feature space.
+   */
+  dimensions?: number;
+
+  /**
+   * Lexical only: IDF weights from fitLexicalWeights, e.g. as saved by
+   * loadLexicalWeights. Without weights only stopwords are down-weighted.
+   */
+  weights?: LexicalWeights;
+
+  /**
+   * OpenAI and proxy: retries of a rate-limited (or, for OpenAI, failed)
+   * request before giving up
+   */
+  maxRetries?: number;
+
+  /**
+   * OpenAI and proxy: milliseconds before a request is aborted
+   */
+  timeout?: number;
 }
 
 export function createEmbeddingProvider(
@@ -27,20 +58,58 @@ export function createEmbeddingProvider(
       return new LocalEmbeddingProvider(config);
     case 'mock':
       return new MockEmbeddingProvider();
+    case 'proxy':
+      return new ProxyEmbeddingProvider(config);
+    case 'lexical':
+      return new LexicalEmbeddingProvider(config);
     default:
       throw new Error(`Unknown embedding provider type: ${config.type}`);
   }
 }
 
+// -----------------------------------------------------------------------------
+// Retry Helpers
+// -----------------------------------------------------------------------------
+
+const RETRY_BASE_DELAY = 1000;
+const RETRY_MAX_DELAY = 60 * 1000;
+
+/**
+ * Delay before retrying a request: the server's Retry-After when given,
+ * otherwise exponential backoff with jitter. Null when the server asks for a
+ * longer wait than we are willing to make.
+ */
+function getRetryDelay(response: Response | null, attempt: number): number | null {
+  const retryAfter = Number(response?.headers.get('Retry-After'));
+  if (retryAfter > 0) {
+    const delay = retryAfter * 1000;
+    return delay <= RETRY_MAX_DELAY ? delay + Math.random() * 250 : null;
+  }
+
+  const ceiling = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 // -----------------------------------------------------------------------------
 // OpenAI Embedding Provider
 // -----------------------------------------------------------------------------
 
+// Per-request limits of the embeddings endpoint
+const OPENAI_MAX_BATCH_ITEMS = 2048;
+const OPENAI_MAX_BATCH_TOKENS = 300_000;
+
 export class OpenAIEmbeddingProvider implements EmbeddingProvider {
   private apiKey: string;
   private model: string;
   private baseUrl: string;
   private dimensions: number;
+  private requestDimensions?: number;
+  private maxRetries: number;
+  private timeout: number;
 
   constructor(config: EmbeddingProviderConfig) {
     if (!config.apiKey) {
@@ -50,58 +119,289 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
     this.apiKey = config.apiKey;
     this.model = config.model ?? 'text-embedding-3-small';
     this.baseUrl = config.baseUrl ?? 'https://api.openai.com/v1';
+    this.maxRetries = config.maxRetries ?? 5;
+    this.timeout = config.timeout ?? 30 * 1000;
+
+    // Only text-embedding-3 models can shorten their output; older ones
+    // reject the parameter
+    if (this.model.startsWith('text-embedding-3')) {
+      this.requestDimensions = config.dimensions;
+    }
 
     // Dimensions based on model
-    this.dimensions = this.model.includes('3-large') ? 3072 : 1536;
+    this.dimensions =
+      this.requestDimensions ?? (this.model.includes('3-large') ? 3072 : 1536);
   }
 
   async embed(text: string): Promise<number[]> {
-    const response = await fetch(`${this.baseUrl}/embeddings`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: this.model,
-        input: text,
-      }),
-    });
+    const [embedding] = await this.request([text]);
+    return embedding;
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI embedding failed: ${error}`);
+  /**
+   * Embed any number of texts, split into requests that stay within the
+   * endpoint's item and token limits
+   */
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (const batch of splitBatches(texts)) {
+      embeddings.push(...(await this.request(batch)));
     }
+    return embeddings;
+  }
 
-    const data = await response.json();
-    return data.data[0].embedding;
+  getDimensions(): number {
+    return this.dimensions;
   }
 
-  async embedBatch(texts: string[]): Promise<number[][]> {
-    const response = await fetch(`${this.baseUrl}/embeddings`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: this.model,
-        input: texts,
-      }),
-    });
+  async getModel(): Promise<string> {
+    return this.model;
+  }
 
-    if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`OpenAI batch embedding failed: ${error}`);
+  /**
+   * One embeddings request, retried on rate limits, server errors and
+   * timeouts
+   */
+  private async request(input: string[]): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}/embeddings`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${this.apiKey}`,
+          },
+          body: JSON.stringify({
+            model: this.model,
+            input,
+            ...(this.requestDimensions && { dimensions: this.requestDimensions }),
+          }),
+          signal: AbortSignal.timeout(this.timeout),
+        });
+      } catch (error) {
+        // Timeouts and network failures
+        if (attempt < this.maxRetries) {
+          await sleep(getRetryDelay(null, attempt)!);
+          continue;
+        }
+        throw new Error(`OpenAI embedding failed: ${error instanceof Error ? error.message : error}`);
+      }
+
+      const retryable = response.status === 429 || response.status >= 500;
+      if (retryable && attempt < this.maxRetries) {
+        const delay = getRetryDelay(response, attempt);
+        if (delay !== null) {
+          await response.body?.cancel();
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`OpenAI embedding failed (${response.status}): ${error}`);
+      }
+
+      const data = (await response.json()) as {
+        data: Array<{ embedding: number[]; index: number }>;
+      };
+      return [...data.data]
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
     }
+  }
+}
 
-    const data = await response.json();
-    return data.data.map((item: { embedding: number[] }) => item.embedding);
+/**
+ * Split texts into consecutive batches under the item and token limits.
+ * Tokens are estimated at three characters each, which errs high for
+ * English so batches stay under the real limit.
+ */
+function splitBatches(texts: string[]): string[][] {
+  const batches: string[][] = [];
+  let batch: string[] = [];
+  let tokens = 0;
+
+  for (const text of texts) {
+    const estimate = Math.ceil(text.length / 3);
+    if (
+      batch.length > 0 &&
+      (batch.length >= OPENAI_MAX_BATCH_ITEMS || tokens + estimate > OPENAI_MAX_BATCH_TOKENS)
+    ) {
+      batches.push(batch);
+      batch = [];
+      tokens = 0;
+    }
+    batch.push(text);
+    tokens += estimate;
+  }
+
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+}
+
+// -----------------------------------------------------------------------------
+// Proxy Embedding Provider (Unimem server /api/embed)
+// -----------------------------------------------------------------------------
+
+interface PendingEmbedding {
+  text: string;
+  resolve: (embedding: number[]) => void;
+  reject: (error: unknown) => void;
+}
+
+// Texts per /api/embed request when flushing queued embed() calls
+const PROXY_MAX_BATCH = 256;
+
+/**
+ * Embeds through the Unimem server, which holds the upstream credentials, so
+ * browsers and other untrusted devices only need their own auth token.
+ * Concurrent embed() calls are coalesced into one request.
+ */
+export class ProxyEmbeddingProvider implements EmbeddingProvider {
+  private baseUrl: string;
+  private apiKey?: string;
+  private getAuthToken?: () => string | Promise<string>;
+  private maxRetries: number;
+  private timeout: number;
+  private dimensions: number;
+  private model: string | null = null;
+  private pending: PendingEmbedding[] = [];
+  private flushScheduled = false;
+
+  constructor(config: EmbeddingProviderConfig) {
+    if (!config.baseUrl) {
+      throw new Error('Unimem server URL is required');
+    }
+    if (!config.apiKey && !config.getAuthToken) {
+      throw new Error('Unimem API key or auth token is required');
+    }
+
+    this.baseUrl = config.baseUrl.replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.getAuthToken = config.getAuthToken;
+    this.maxRetries = config.maxRetries ?? 5;
+    this.timeout = config.timeout ?? 30 * 1000;
+
+    // Corrected from the first response; the server's default model is 1536
+    this.dimensions = config.dimensions ?? 1536;
+  }
+
+  embed(text: string): Promise<number[]> {
+    return new Promise((resolve, reject) => {
+      this.pending.push({ text, resolve, reject });
+
+      if (!this.flushScheduled) {
+        this.flushScheduled = true;
+        queueMicrotask(() => this.flush());
+      }
+    });
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += PROXY_MAX_BATCH) {
+      embeddings.push(...(await this.request(texts.slice(i, i + PROXY_MAX_BATCH))));
+    }
+    return embeddings;
   }
 
   getDimensions(): number {
     return this.dimensions;
   }
+
+  /**
+   * Model the server embeds with, as reported by its last response. The
+   * server's configuration can change, so until a response arrives it is
+   * asked for it (free of quota, since the server caches the answer).
+   */
+  async getModel(): Promise<string> {
+    if (!this.model) {
+      const response = await this.send('GET', '/api/embed/model');
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Unimem embedding model lookup failed (${response.status}): ${error}`);
+      }
+
+      const data = (await response.json()) as { model: string; dimensions: number };
+      if (data.dimensions) this.dimensions = data.dimensions;
+      this.model ??= data.model;
+    }
+    return this.model;
+  }
+
+  /**
+   * Send every embed() call made since the last flush as one batch
+   */
+  private async flush(): Promise<void> {
+    const batch = this.pending;
+    this.pending = [];
+    this.flushScheduled = false;
+
+    try {
+      const embeddings = await this.embedBatch(batch.map((item) => item.text));
+      batch.forEach((item, i) => item.resolve(embeddings[i]));
+    } catch (error) {
+      for (const item of batch) item.reject(error);
+    }
+  }
+
+  private async request(texts: string[]): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.send('POST', '/api/embed', { texts });
+
+      if (response.status === 429 && attempt < this.maxRetries) {
+        const delay = getRetryDelay(response, attempt);
+
+        // A daily budget that resets in hours is not worth waiting for
+        if (delay !== null) {
+          await response.body?.cancel();
+          await sleep(delay);
+          continue;
+        }
+      }
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Unimem embedding failed (${response.status}): ${error}`);
+      }
+
+      const data = (await response.json()) as {
+        embeddings: number[][];
+        dimensions: number;
+        model: string;
+      };
+      if (data.dimensions) this.dimensions = data.dimensions;
+      this.model = data.model;
+      return data.embeddings;
+    }
+  }
+
+  /**
+   * Authenticated request to the server, aborted after the timeout
+   */
+  private async send(method: 'GET' | 'POST', path: string, body?: unknown): Promise<Response> {
+    try {
+      return await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(body !== undefined && { 'Content-Type': 'application/json' }),
+          Authorization: `Bearer ${await this.resolveAuthToken()}`,
+        },
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+        signal: AbortSignal.timeout(this.timeout),
+      });
+    } catch (error) {
+      throw new Error(`Unimem request failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async resolveAuthToken(): Promise<string> {
+    return this.getAuthToken ? await this.getAuthToken() : this.apiKey!;
+  }
 }
 
 // -----------------------------------------------------------------------------
@@ -129,6 +429,283 @@ export class LocalEmbeddingProvider implements EmbeddingProvider {
   getDimensions(): number {
     return this.dimensions;
   }
+
+  async getModel(): Promise<string> {
+    return 'all-MiniLM-L6-v2';
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Lexical Embedding Provider (offline, no model)
+// -----------------------------------------------------------------------------
+
+// Relative weight of each feature family in the combined vector
+const LEXICAL_FEATURE_WEIGHTS = {
+  word: 1,
+  bigram: 0.5,
+  char: 0.5,
+};
+
+const LEXICAL_CHAR_GRAM = 3;
+const STOPWORD_IDF = 0.1;
+
+// Stored entities sampled to fit IDF weights on
+const LEXICAL_CORPUS_MIN = 16;
+const LEXICAL_CORPUS_MAX = 1024;
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by for from has have he her his i if in into is it its ' +
+    'me my no not of on or our she so that the their them then there these they this ' +
+    'to was we were what when where which who will with you your'
+  ).split(' ')
+);
+
+type LexicalFeatures = Map<string, number>;
+
+/**
+ * Document frequencies fitted on a sample of documents. The id names the
+ * model, so keep the weights once fitted: refitting re-embeds every entity.
+ */
+export interface LexicalWeights {
+  version: 1;
+  id: string;
+  documents: number; // size of the sample
+  documentFrequency: Record<string, number>;
+}
+
+/**
+ * Where fitted lexical weights persist between sessions
+ */
+export interface LexicalWeightsStore {
+  load(): Promise<string | null>;
+  save(data: string): Promise<void>;
+}
+
+/**
+ * Bag-of-n-grams embedding: word unigrams, word bigrams and character
+ * trigrams, weighted by TF-IDF and hashed into a fixed number of dimensions.
+ * Notes that share words (or word stems, through the trigrams) come out
+ * similar; synonyms do not. Deterministic for a given configuration, and
+ * needs no network or model download.
+ */
+export class LexicalEmbeddingProvider implements EmbeddingProvider {
+  private dimensions: number;
+  private model = 'lexical-v1';
+  private idf = new Map<string, number>();
+  private defaultIdf = 1;
+
+  constructor(config: EmbeddingProviderConfig) {
+    this.dimensions = config.dimensions ?? 512;
+
+    if (config.weights) {
+      this.setIdf(config.weights);
+
+      // Weights fitted on another sample give other vectors
+      this.model += `-idf-${config.weights.id}`;
+    }
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const embedding = new Array<number>(this.dimensions).fill(0);
+    const words = tokenize(text);
+
+    const families: Array<[LexicalFeatures, number]> = [
+      [countWords(words), LEXICAL_FEATURE_WEIGHTS.word],
+      [countBigrams(words), LEXICAL_FEATURE_WEIGHTS.bigram],
+      [countCharGrams(words), LEXICAL_FEATURE_WEIGHTS.char],
+    ];
+
+    for (const [features, weight] of families) {
+      // Each family is normalized on its own, so long texts with many
+      // trigrams do not drown out the word features
+      const weighted = Array.from(features, ([feature, count]): [string, number] => [
+        feature,
+        (1 + Math.log(count)) * this.getIdf(feature),
+      ]);
+      const norm = Math.sqrt(weighted.reduce((sum, [, value]) => sum + value * value, 0));
+      if (norm === 0) continue;
+
+      for (const [feature, value] of weighted) {
+        // Signed hashing: collisions cancel out on average instead of
+        // inflating similarity
+        const hash = fnv1a(feature);
+        const sign = hash & 0x80000000 ? -1 : 1;
+        embedding[(hash & 0x7fffffff) % this.dimensions] += (sign * weight * value) / norm;
+      }
+    }
+
+    const magnitude = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
+    return magnitude === 0 ? embedding : embedding.map((val) => val / magnitude);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return Promise.all(texts.map((t) => this.embed(t)));
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  async getModel(): Promise<string> {
+    return this.model;
+  }
+
+  private getIdf(feature: string): number {
+    const idf = this.idf.get(feature);
+    if (idf !== undefined) return idf;
+
+    return STOPWORDS.has(feature.slice(2)) ? STOPWORD_IDF : this.defaultIdf;
+  }
+
+  /**
+   * Smoothed IDF over the sample; unseen features count as appearing in no
+   * document
+   */
+  private setIdf(weights: LexicalWeights): void {
+    const n = weights.documents;
+    for (const [feature, df] of Object.entries(weights.documentFrequency)) {
+      this.idf.set(feature, Math.log((1 + n) / (1 + df)) + 1);
+    }
+    this.defaultIdf = Math.log(1 + n) + 1;
+  }
+}
+
+/**
+ * Document frequency of every feature of the corpus
+ */
+export function fitLexicalWeights(corpus: string[]): LexicalWeights {
+  const documentFrequency: Record<string, number> = {};
+
+  for (const text of corpus) {
+    const words = tokenize(text);
+    const features = new Set([
+      ...countWords(words).keys(),
+      ...countBigrams(words).keys(),
+      ...countCharGrams(words).keys(),
+    ]);
+    for (const feature of features) {
+      documentFrequency[feature] = (documentFrequency[feature] ?? 0) + 1;
+    }
+  }
+
+  return {
+    version: 1,
+    id: fnv1a(corpus.join('\n')).toString(16),
+    documents: corpus.length,
+    documentFrequency,
+  };
+}
+
+/**
+ * Texts of stored entities to fit lexical IDF weights on: the oldest ones,
+ * up to LEXICAL_CORPUS_MAX. Empty while too few are stored to fit on.
+ */
+export async function sampleLexicalCorpus(storage: StorageAdapter): Promise<string[]> {
+  const entities = await storage.query({});
+  if (entities.length < LEXICAL_CORPUS_MIN) return [];
+
+  return entities
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() ||
+        a.id.localeCompare(b.id)
+    )
+    .slice(0, LEXICAL_CORPUS_MAX)
+    .map((entity) => `${entity.title} ${entity.content}`);
+}
+
+/**
+ * Lexical weights kept in the store. They are fitted on the stored entities
+ * (and saved) only when none are kept yet, or when asked to refit: new
+ * weights name a new model, which re-embeds every entity. Null while too
+ * few entities are stored to fit on.
+ */
+export async function loadLexicalWeights(
+  store: LexicalWeightsStore,
+  storage: StorageAdapter,
+  options: { refit?: boolean } = {}
+): Promise<LexicalWeights | null> {
+  if (!options.refit) {
+    const saved = await readLexicalWeights(store);
+    if (saved) return saved;
+  }
+
+  const corpus = await sampleLexicalCorpus(storage);
+  if (corpus.length === 0) return null;
+
+  const weights = fitLexicalWeights(corpus);
+  await store.save(JSON.stringify(weights));
+  return weights;
+}
+
+async function readLexicalWeights(store: LexicalWeightsStore): Promise<LexicalWeights | null> {
+  const data = await store.load();
+  if (!data) return null;
+
+  try {
+    const weights = JSON.parse(data) as LexicalWeights;
+    return weights.version === 1 ? weights : null;
+  } catch (error) {
+    console.warn('Discarding unreadable lexical weights:', error);
+    return null;
+  }
+}
+
+/**
+ * Lowercased words with diacritics removed
+ */
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 0);
+}
+
+// Features are prefixed by family so a word never collides with a trigram
+function countWords(words: string[]): LexicalFeatures {
+  return countFeatures(words.map((word) => `w:${word}`));
+}
+
+function countBigrams(words: string[]): LexicalFeatures {
+  const bigrams: string[] = [];
+  for (let i = 1; i < words.length; i++) {
+    if (STOPWORDS.has(words[i - 1]) && STOPWORDS.has(words[i])) continue;
+    bigrams.push(`b:${words[i - 1]} ${words[i]}`);
+  }
+  return countFeatures(bigrams);
+}
+
+function countCharGrams(words: string[]): LexicalFeatures {
+  const grams: string[] = [];
+  for (const word of words) {
+    if (STOPWORDS.has(word)) continue;
+
+    const padded = `<${word}>`;
+    for (let i = 0; i + LEXICAL_CHAR_GRAM <= padded.length; i++) {
+      grams.push(`c:${padded.slice(i, i + LEXICAL_CHAR_GRAM)}`);
+    }
+  }
+  return countFeatures(grams);
+}
+
+function countFeatures(features: string[]): LexicalFeatures {
+  const counts: LexicalFeatures = new Map();
+  for (const feature of features) {
+    counts.set(feature, (counts.get(feature) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
 }
 
 // -----------------------------------------------------------------------------
@@ -152,6 +729,10 @@ export class MockEmbeddingProvider implements EmbeddingProvider {
     return this.dimensions;
   }
 
+  async getModel(): Promise<string> {
+    return 'mock';
+  }
+
   private simpleHash(str: string): number {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
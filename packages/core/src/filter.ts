@@ -0,0 +1,45 @@
+// =============================================================================
+// Entity Filters - In-memory evaluation of EntityFilter
+// =============================================================================
+
+import type { Entity, EntityFilter, EntityType } from '@unimem/types';
+
+/**
+ * Whether an entity satisfies a filter, with the same semantics as
+ * StorageAdapter.query: every listed tag must be present, and the date
+ * range applies to createdAt
+ */
+export function matchesFilter(
+  entity: Pick<Entity, 'type' | 'memoryLayer' | 'tags' | 'createdAt'>,
+  filter: EntityFilter
+): boolean {
+  if (!matchesType(entity.type, filter)) return false;
+
+  if (
+    filter.memoryLayers?.length &&
+    !filter.memoryLayers.includes(entity.memoryLayer)
+  ) {
+    return false;
+  }
+
+  if (filter.tags?.length && !filter.tags.every((tag) => entity.tags.includes(tag))) {
+    return false;
+  }
+
+  const createdAt = new Date(entity.createdAt).getTime();
+  if (filter.dateRange?.start && createdAt < new Date(filter.dateRange.start).getTime()) {
+    return false;
+  }
+  if (filter.dateRange?.end && createdAt > new Date(filter.dateRange.end).getTime()) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Type-only check, for records such as tombstones that carry nothing else
+ */
+export function matchesType(type: EntityType, filter: EntityFilter): boolean {
+  return !filter.types?.length || filter.types.includes(type);
+}
@@ -0,0 +1,149 @@
+// =============================================================================
+// Hybrid Logical Clock - Causally ordered timestamps across devices
+// =============================================================================
+
+// -----------------------------------------------------------------------------
+// HLC Timestamp
+// -----------------------------------------------------------------------------
+
+export interface HlcTimestamp {
+  wallTime: number; // milliseconds since epoch
+  counter: number;  // logical counter within the same wallTime
+  nodeId: string;
+}
+
+const WALL_TIME_WIDTH = 15;
+const COUNTER_WIDTH = 5;
+
+/**
+ * Encode a timestamp as a fixed-width string, so that plain string
+ * comparison matches HLC ordering
+ */
+export function formatHlc(timestamp: HlcTimestamp): string {
+  return [
+    timestamp.wallTime.toString().padStart(WALL_TIME_WIDTH, '0'),
+    timestamp.counter.toString().padStart(COUNTER_WIDTH, '0'),
+    timestamp.nodeId,
+  ].join(':');
+}
+
+export function parseHlc(value: string): HlcTimestamp {
+  const [wallTime, counter, ...nodeId] = value.split(':');
+
+  const parsed = {
+    wallTime: Number(wallTime),
+    counter: Number(counter),
+    nodeId: nodeId.join(':'),
+  };
+
+  if (
+    !Number.isInteger(parsed.wallTime) ||
+    !Number.isInteger(parsed.counter) ||
+    !parsed.nodeId
+  ) {
+    throw new Error(`Invalid HLC timestamp: ${value}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Order two HLC strings. Missing values sort before any timestamp.
+ */
+export function compareHlc(a?: string | null, b?: string | null): number {
+  if (!a) return b ? -1 : 0;
+  if (!b) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+// -----------------------------------------------------------------------------
+// Clock
+// -----------------------------------------------------------------------------
+
+export interface HybridLogicalClockOptions {
+  /**
+   * Source of physical time (defaults to Date.now)
+   */
+  now?: () => number;
+
+  /**
+   * Maximum tolerated lead of a remote clock over ours, in milliseconds
+   */
+  maxDrift?: number;
+}
+
+export class HybridLogicalClock {
+  private nodeId: string;
+  private physicalTime: () => number;
+  private maxDrift: number;
+  private wallTime = 0;
+  private counter = 0;
+
+  constructor(nodeId: string, options: HybridLogicalClockOptions = {}) {
+    if (!nodeId) {
+      throw new Error('HLC node ID is required');
+    }
+
+    this.nodeId = nodeId;
+    this.physicalTime = options.now ?? Date.now;
+    this.maxDrift = options.maxDrift ?? 60 * 1000;
+  }
+
+  /**
+   * Timestamp a local event
+   */
+  tick(): string {
+    const now = this.physicalTime();
+
+    if (now > this.wallTime) {
+      this.wallTime = now;
+      this.counter = 0;
+    } else {
+      this.counter++;
+    }
+
+    return this.current();
+  }
+
+  /**
+   * Merge a timestamp received from another node, so that every later local
+   * event orders after it
+   */
+  receive(remote: string): string {
+    const theirs = parseHlc(remote);
+    const now = this.physicalTime();
+
+    if (theirs.wallTime - now > this.maxDrift) {
+      throw new Error(
+        `Remote clock ${theirs.nodeId} is ${theirs.wallTime - now}ms ahead`
+      );
+    }
+
+    const wallTime = Math.max(this.wallTime, theirs.wallTime, now);
+
+    if (wallTime === this.wallTime && wallTime === theirs.wallTime) {
+      this.counter = Math.max(this.counter, theirs.counter) + 1;
+    } else if (wallTime === this.wallTime) {
+      this.counter++;
+    } else if (wallTime === theirs.wallTime) {
+      this.counter = theirs.counter + 1;
+    } else {
+      this.counter = 0;
+    }
+
+    this.wallTime = wallTime;
+    return this.current();
+  }
+
+  getNodeId(): string {
+    return this.nodeId;
+  }
+
+  private current(): string {
+    return formatHlc({
+      wallTime: this.wallTime,
+      counter: this.counter,
+      nodeId: this.nodeId,
+    });
+  }
+}
@@ -0,0 +1,498 @@
+// =============================================================================
+// HNSW - Approximate nearest neighbour search over cosine similarity
+// =============================================================================
+
+export interface HnswOptions {
+  m?: number;              // links per node and layer (twice as many on layer 0)
+  efConstruction?: number; // candidates considered while linking a new node
+  efSearch?: number;       // candidates considered per search (at least k)
+}
+
+export interface HnswSearchOptions {
+  ef?: number;
+  filter?: (id: string) => boolean; // ids failing it are routed through but not returned
+}
+
+export interface HnswMatch {
+  id: string;
+  score: number; // cosine similarity
+}
+
+/**
+ * Serialized index. Vectors and links are base64 typed arrays, so a
+ * snapshot of thousands of embeddings stays compact as JSON.
+ */
+export interface HnswSnapshot {
+  version: 1;
+  dimensions: number;
+  m: number;
+  efConstruction: number;
+  efSearch: number;
+  entryPoint: number;
+  ids: Array<string | null>; // null for removed nodes still used for routing
+  levels: number[];
+  vectors: string; // Float32Array, unit length
+  links: string;   // Int32Array: per node and layer, a count then node indices
+}
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+const DEFAULT_M = 16;
+const DEFAULT_EF_CONSTRUCTION = 100;
+const DEFAULT_EF_SEARCH = 50;
+
+// Removed nodes stay in the graph for routing until they outnumber the live
+// ones; the graph is then rebuilt without them
+const MIN_REMOVED_BEFORE_REBUILD = 64;
+
+// -----------------------------------------------------------------------------
+// HNSW Index
+// -----------------------------------------------------------------------------
+
+/**
+ * Hierarchical navigable small world graph (Malkov & Yashunin). Vectors are
+ * stored normalized, so distance is 1 - dot product.
+ */
+export class HnswIndex {
+  private dimensions: number;
+  private m: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private levelFactor: number;
+
+  private ids: Array<string | null> = [];
+  private vectors: Float32Array[] = [];
+  private levels: number[] = [];
+  private links: number[][][] = [];
+  private nodes = new Map<string, number>();
+  private entryPoint = -1;
+  private removed = 0;
+
+  private visited = new Uint32Array(0);
+  private visitEpoch = 0;
+
+  constructor(dimensions: number, options: HnswOptions = {}) {
+    this.dimensions = dimensions;
+    this.m = options.m ?? DEFAULT_M;
+    this.efConstruction = options.efConstruction ?? DEFAULT_EF_CONSTRUCTION;
+    this.efSearch = options.efSearch ?? DEFAULT_EF_SEARCH;
+    this.levelFactor = 1 / Math.log(this.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  getDimensions(): number {
+    return this.dimensions;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /**
+   * Add a vector, replacing any earlier one with the same id
+   */
+  add(id: string, vector: number[] | Float32Array): void {
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Expected ${this.dimensions} dimensions, got ${vector.length}`);
+    }
+    if (this.nodes.has(id)) this.remove(id);
+
+    const normalized = normalize(vector);
+    const node = this.ids.length;
+    const level = Math.floor(-Math.log(1 - Math.random()) * this.levelFactor);
+
+    this.ids.push(id);
+    this.vectors.push(normalized);
+    this.levels.push(level);
+    this.links.push(Array.from({ length: level + 1 }, () => []));
+    this.nodes.set(id, node);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = node;
+      return;
+    }
+
+    const top = this.levels[this.entryPoint];
+    let entry = this.entryPoint;
+    for (let layer = top; layer > level; layer--) {
+      entry = this.greedyClosest(normalized, entry, layer);
+    }
+
+    for (let layer = Math.min(level, top); layer >= 0; layer--) {
+      const candidates = this.searchLayer(normalized, entry, this.efConstruction, layer);
+      const neighbours = this.selectNeighbours(candidates, this.maxLinks(layer));
+
+      this.links[node][layer] = neighbours.map((candidate) => candidate.node);
+      for (const neighbour of neighbours) this.connect(neighbour.node, node, layer);
+      entry = candidates[0].node;
+    }
+
+    if (level > top) this.entryPoint = node;
+  }
+
+  /**
+   * Remove a vector. Returns whether it was present.
+   */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (node === undefined) return false;
+
+    this.nodes.delete(id);
+    this.ids[node] = null;
+    this.removed++;
+
+    if (this.removed >= MIN_REMOVED_BEFORE_REBUILD && this.removed > this.nodes.size) {
+      this.rebuild();
+    }
+    return true;
+  }
+
+  /**
+   * The `k` nearest vectors, most similar first
+   */
+  search(vector: number[] | Float32Array, k: number, options: HnswSearchOptions = {}): HnswMatch[] {
+    if (k <= 0 || this.nodes.size === 0) return [];
+    if (vector.length !== this.dimensions) {
+      throw new Error(`Expected ${this.dimensions} dimensions, got ${vector.length}`);
+    }
+
+    const query = normalize(vector);
+    let entry = this.entryPoint;
+    for (let layer = this.levels[entry]; layer > 0; layer--) {
+      entry = this.greedyClosest(query, entry, layer);
+    }
+
+    const filter = options.filter;
+    const accept = (node: number) => {
+      const id = this.ids[node];
+      return id !== null && (!filter || filter(id));
+    };
+
+    return this.searchLayer(query, entry, Math.max(options.ef ?? this.efSearch, k), 0, accept)
+      .slice(0, k)
+      .map((candidate) => ({
+        id: this.ids[candidate.node]!,
+        score: 1 - candidate.distance,
+      }));
+  }
+
+  /**
+   * Cosine similarity of a stored vector to `vector` (null when absent)
+   */
+  similarity(id: string, vector: number[] | Float32Array): number | null {
+    const node = this.nodes.get(id);
+    if (node === undefined || vector.length !== this.dimensions) return null;
+    return 1 - distance(this.vectors[node], normalize(vector));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Serialization
+  // ---------------------------------------------------------------------------
+
+  serialize(): HnswSnapshot {
+    const vectors = new Float32Array(this.ids.length * this.dimensions);
+    this.vectors.forEach((vector, node) => vectors.set(vector, node * this.dimensions));
+
+    const links: number[] = [];
+    for (const layers of this.links) {
+      for (const neighbours of layers) links.push(neighbours.length, ...neighbours);
+    }
+
+    return {
+      version: 1,
+      dimensions: this.dimensions,
+      m: this.m,
+      efConstruction: this.efConstruction,
+      efSearch: this.efSearch,
+      entryPoint: this.entryPoint,
+      ids: [...this.ids],
+      levels: [...this.levels],
+      vectors: toBase64(new Uint8Array(vectors.buffer)),
+      links: toBase64(new Uint8Array(Int32Array.from(links).buffer)),
+    };
+  }
+
+  static deserialize(snapshot: HnswSnapshot): HnswIndex {
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported HNSW snapshot version: ${snapshot.version}`);
+    }
+
+    const index = new HnswIndex(snapshot.dimensions, snapshot);
+    const vectors = new Float32Array(fromBase64(snapshot.vectors).buffer);
+    const links = new Int32Array(fromBase64(snapshot.links).buffer);
+
+    let offset = 0;
+    snapshot.ids.forEach((id, node) => {
+      const start = node * snapshot.dimensions;
+      index.ids.push(id);
+      index.vectors.push(vectors.slice(start, start + snapshot.dimensions));
+      index.levels.push(snapshot.levels[node]);
+
+      const layers: number[][] = [];
+      for (let layer = 0; layer <= snapshot.levels[node]; layer++) {
+        const count = links[offset++];
+        layers.push(Array.from(links.subarray(offset, offset + count)));
+        offset += count;
+      }
+      index.links.push(layers);
+
+      if (id === null) index.removed++;
+      else index.nodes.set(id, node);
+    });
+    index.entryPoint = snapshot.entryPoint;
+
+    return index;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Graph Construction
+  // ---------------------------------------------------------------------------
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.m * 2 : this.m;
+  }
+
+  /**
+   * Link `from` to `to`. Links may overshoot the maximum by m/2 before they
+   * are pruned back, which spares a pruning pass on most inserts.
+   */
+  private connect(from: number, to: number, layer: number): void {
+    const neighbours = this.links[from][layer];
+    neighbours.push(to);
+    if (neighbours.length <= this.maxLinks(layer) + (this.m >> 1)) return;
+
+    const candidates = neighbours
+      .map((node) => ({ node, distance: distance(this.vectors[from], this.vectors[node]) }))
+      .sort((a, b) => a.distance - b.distance);
+    this.links[from][layer] = this.selectNeighbours(candidates, this.maxLinks(layer))
+      .map((candidate) => candidate.node);
+  }
+
+  /**
+   * Neighbour selection heuristic: prefer candidates closer to the node than
+   * to any neighbour already selected, so links spread in all directions,
+   * then fill up with the closest remaining ones. Candidates come sorted.
+   */
+  private selectNeighbours(candidates: Candidate[], count: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) break;
+
+      const diverse = selected.every(
+        (other) => distance(this.vectors[candidate.node], this.vectors[other.node]) > candidate.distance
+      );
+      (diverse ? selected : pruned).push(candidate);
+    }
+
+    for (const candidate of pruned) {
+      if (selected.length >= count) break;
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  /**
+   * Re-insert the live vectors into a fresh graph
+   */
+  private rebuild(): void {
+    const live = Array.from(this.nodes, ([id, node]) => [id, this.vectors[node]] as const);
+
+    this.ids = [];
+    this.vectors = [];
+    this.levels = [];
+    this.links = [];
+    this.nodes.clear();
+    this.entryPoint = -1;
+    this.removed = 0;
+
+    for (const [id, vector] of live) this.add(id, vector);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Graph Search
+  // ---------------------------------------------------------------------------
+
+  private greedyClosest(query: Float32Array, entry: number, layer: number): number {
+    let current = entry;
+    let currentDistance = distance(query, this.vectors[current]);
+
+    for (let improved = true; improved; ) {
+      improved = false;
+      for (const neighbour of this.links[current][layer]) {
+        const neighbourDistance = distance(query, this.vectors[neighbour]);
+        if (neighbourDistance < currentDistance) {
+          current = neighbour;
+          currentDistance = neighbourDistance;
+          improved = true;
+        }
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Best-first search of one layer, keeping the `ef` closest accepted nodes.
+   * Rejected nodes are still expanded, so a selective filter widens the
+   * search instead of cutting it short. Returns closest first.
+   */
+  private searchLayer(
+    query: Float32Array,
+    entry: number,
+    ef: number,
+    layer: number,
+    accept: (node: number) => boolean = () => true
+  ): Candidate[] {
+    const visited = this.startVisit();
+    const epoch = this.visitEpoch;
+
+    const entryCandidate = { node: entry, distance: distance(query, this.vectors[entry]) };
+    const candidates = new Heap<Candidate>((a, b) => a.distance - b.distance);
+    const results = new Heap<Candidate>((a, b) => b.distance - a.distance);
+
+    visited[entry] = epoch;
+    candidates.push(entryCandidate);
+    if (accept(entry)) results.push(entryCandidate);
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (results.size >= ef && closest.distance > results.peek()!.distance) break;
+
+      for (const neighbour of this.links[closest.node][layer]) {
+        if (visited[neighbour] === epoch) continue;
+        visited[neighbour] = epoch;
+
+        const neighbourDistance = distance(query, this.vectors[neighbour]);
+        if (results.size < ef || neighbourDistance < results.peek()!.distance) {
+          const candidate = { node: neighbour, distance: neighbourDistance };
+          candidates.push(candidate);
+          if (accept(neighbour)) {
+            results.push(candidate);
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.drain().reverse();
+  }
+
+  private startVisit(): Uint32Array {
+    if (this.visited.length < this.ids.length) {
+      this.visited = new Uint32Array(Math.max(this.ids.length, this.visited.length * 2));
+      this.visitEpoch = 0;
+    }
+    if (++this.visitEpoch === 0xffffffff) {
+      this.visited.fill(0);
+      this.visitEpoch = 1;
+    }
+    return this.visited;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Binary heap ordered by `compare` (smallest first)
+ */
+class Heap<T> {
+  private items: T[] = [];
+  private compare: (a: T, b: T) => number;
+
+  constructor(compare: (a: T, b: T) => number) {
+    this.compare = compare;
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length === 0 || last === undefined) return top;
+
+    items[0] = last;
+    let i = 0;
+    for (;;) {
+      const left = i * 2 + 1;
+      const right = left + 1;
+      let smallest = i;
+      if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+      if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+      if (smallest === i) break;
+      [items[i], items[smallest]] = [items[smallest], items[i]];
+      i = smallest;
+    }
+    return top;
+  }
+
+  /**
+   * Remove every item, in heap order
+   */
+  drain(): T[] {
+    const drained: T[] = [];
+    while (this.items.length > 0) drained.push(this.pop()!);
+    return drained;
+  }
+}
+
+function normalize(vector: number[] | Float32Array): Float32Array {
+  const normalized = Float32Array.from(vector);
+  let sum = 0;
+  for (let i = 0; i < normalized.length; i++) sum += normalized[i] * normalized[i];
+
+  const magnitude = Math.sqrt(sum);
+  if (magnitude > 0) {
+    for (let i = 0; i < normalized.length; i++) normalized[i] /= magnitude;
+  }
+  return normalized;
+}
+
+function distance(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i] * b[i];
+  return 1 - dot;
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
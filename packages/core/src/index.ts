@@ -6,3 +6,10 @@ export * from './memory-engine';
 export * from './consolidation';
 export * from './retrieval';
 export * from './embedding';
+export * from './chunking';
+export * from './indexer';
+export * from './hnsw';
+export * from './vector-index';
+export * from './hlc';
+export * from './merge';
+export * from './filter';
@@ -0,0 +1,363 @@
+// =============================================================================
+// Embedding Indexer - Background embedding of stored entities
+// =============================================================================
+
+import type { Entity, EntityChunk, EmbeddingModel, MemoryEvent } from '@unimem/types';
+import type { StorageAdapter, EmbeddingProvider } from './memory-engine';
+import { chunkText, type ChunkOptions } from './chunking';
+
+// -----------------------------------------------------------------------------
+// Indexer Configuration
+// -----------------------------------------------------------------------------
+
+export interface EmbeddingIndexerOptions {
+  batchSize?: number; // entities embedded per embedBatch call
+  delay?: number;     // milliseconds to wait after a write, so bursts share a batch
+
+  /**
+   * Backoff applied when a batch fails to embed
+   */
+  retry?: {
+    baseDelay?: number;
+    maxDelay?: number;
+    maxAttempts?: number; // before the batch is set aside until the next write
+  };
+}
+
+export interface EmbeddingIndexerConfig extends EmbeddingIndexerOptions {
+  storage: StorageAdapter;
+  embedding: EmbeddingProvider;
+
+  /**
+   * How long content is split into separately embedded chunks
+   * (false embeds every entity as a single vector)
+   */
+  chunking?: ChunkOptions | false;
+}
+
+export interface IndexingProgress {
+  indexed: number;   // entities embedded since the indexer was created
+  failed: number;    // entities set aside after repeated failures
+  remaining: number; // entities still missing or with stale embeddings
+}
+
+export interface IndexingFailure {
+  entityIds: string[];
+  error: string;
+}
+
+/**
+ * Payload of 'entity:embedded': what was stored for an entity
+ */
+export interface EmbeddedEntity {
+  entity: Entity;
+  embedding: number[];
+  chunks: EntityChunk[];
+  model: EmbeddingModel;
+}
+
+export interface ModelChange extends EmbeddingModel {
+  outdated: number; // entities flagged for re-embedding
+}
+
+type IndexerEventHandler = (event: MemoryEvent) => void;
+
+const DEFAULT_BATCH_SIZE = 32;
+const DEFAULT_DELAY = 250;
+const DEFAULT_RETRY_BASE_DELAY = 1000;
+const DEFAULT_RETRY_MAX_DELAY = 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+// -----------------------------------------------------------------------------
+// Embedding Indexer
+// -----------------------------------------------------------------------------
+
+/**
+ * Embeds entities after they are written. The queue is the storage itself:
+ * every entity flagged 'missing' or 'stale' is pending, so work survives
+ * restarts and covers entities written by sync as well as local edits.
+ */
+export class EmbeddingIndexer {
+  private storage: StorageAdapter;
+  private embedding: EmbeddingProvider;
+  private chunking: ChunkOptions | false;
+  private batchSize: number;
+  private delay: number;
+  private retry: Required<NonNullable<EmbeddingIndexerOptions['retry']>>;
+  private eventHandlers = new Set<IndexerEventHandler>();
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<void> | null = null;
+  private rerun = false;
+  private stopped = false;
+  private failed = new Set<string>();
+  private indexed = 0;
+
+  constructor(config: EmbeddingIndexerConfig) {
+    this.storage = config.storage;
+    this.embedding = config.embedding;
+    this.chunking = config.chunking ?? {};
+    this.batchSize = config.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.delay = config.delay ?? DEFAULT_DELAY;
+    this.retry = {
+      baseDelay: config.retry?.baseDelay ?? DEFAULT_RETRY_BASE_DELAY,
+      maxDelay: config.retry?.maxDelay ?? DEFAULT_RETRY_MAX_DELAY,
+      maxAttempts: config.retry?.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Index whatever is pending in storage, e.g. after startup or a sync.
+   * Embeddings from another model than the provider's are re-embedded; the
+   * flags persist, so an interrupted migration resumes on the next start.
+   */
+  async start(): Promise<void> {
+    this.stopped = false;
+    this.failed.clear();
+
+    try {
+      await this.checkModel();
+    } catch (error) {
+      // E.g. offline with a server-side model; checked again next start
+      console.warn('Could not check the embedding model:', error);
+    }
+
+    this.schedule();
+  }
+
+  /**
+   * Flag embeddings that do not come from the provider's current model.
+   * Returns how many entities need re-embedding.
+   */
+  async checkModel(): Promise<number> {
+    const model = await this.embedding.getModel();
+    const active: EmbeddingModel = {
+      model,
+      dimensions: this.embedding.getDimensions(),
+    };
+
+    const outdated = await this.storage.flagOutdatedEmbeddings(active);
+    if (outdated > 0) {
+      this.emit('indexing:model-changed', { ...active, outdated } satisfies ModelChange);
+    }
+    return outdated;
+  }
+
+  /**
+   * Stop, resolving once the batch in flight is done; pending entities stay
+   * flagged
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    while (this.running) await this.running;
+  }
+
+  /**
+   * Note that an entity was written and needs embedding; storage already
+   * flags which ones. Any write also gives entities that failed earlier
+   * another chance.
+   */
+  enqueue(): void {
+    this.failed.clear();
+    this.schedule();
+  }
+
+  /**
+   * Index everything pending now, resolving once nothing is left
+   */
+  async flush(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.run();
+    while (this.running) await this.running;
+  }
+
+  async getProgress(): Promise<IndexingProgress> {
+    const counts = await this.storage.countByEmbeddingStatus();
+
+    return {
+      indexed: this.indexed,
+      failed: this.failed.size,
+      remaining: counts.missing + counts.stale,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Event System
+  // ---------------------------------------------------------------------------
+
+  on(handler: IndexerEventHandler): () => void {
+    this.eventHandlers.add(handler);
+    return () => this.eventHandlers.delete(handler);
+  }
+
+  private emit(type: MemoryEvent['type'], payload: unknown): void {
+    const event: MemoryEvent = {
+      type,
+      payload,
+      timestamp: new Date(),
+      source: 'local',
+    };
+
+    for (const handler of this.eventHandlers) {
+      try {
+        handler(event);
+      } catch (error) {
+        console.error(`Error in event handler for ${type}:`, error);
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Processing
+  // ---------------------------------------------------------------------------
+
+  private schedule(): void {
+    if (this.timer || this.stopped) return;
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.run();
+    }, this.delay);
+  }
+
+  private run(): Promise<void> {
+    // Writes during a run are picked up by a follow-up run
+    if (this.running) {
+      this.rerun = true;
+      return this.running;
+    }
+
+    this.running = this.drain()
+      .catch((error) => console.error('Embedding indexer error:', error))
+      .finally(() => {
+        this.running = null;
+        if (this.rerun) {
+          this.rerun = false;
+          void this.run();
+        }
+      });
+    return this.running;
+  }
+
+  private async drain(): Promise<void> {
+    while (!this.stopped) {
+      // Over-fetch so entities set aside do not block the ones behind them
+      const candidates = await this.storage.queryByEmbeddingStatus(
+        ['missing', 'stale'],
+        this.batchSize + this.failed.size
+      );
+      const batch = candidates
+        .filter((entity) => !this.failed.has(entity.id))
+        .slice(0, this.batchSize);
+      if (batch.length === 0) return;
+
+      await this.indexBatch(batch);
+      this.emit('indexing:progress', await this.getProgress());
+    }
+  }
+
+  private async indexBatch(batch: Entity[]): Promise<void> {
+    const plans = batch.map((entity) => ({
+      entity,
+      texts: this.getTexts(entity),
+    }));
+    const texts = plans.flatMap((plan) => plan.texts.map((t) => t.input));
+
+    let embeddings: number[][] | null = null;
+    for (let attempt = 1; !embeddings; attempt++) {
+      try {
+        embeddings = await this.embedding.embedBatch(texts);
+      } catch (error) {
+        if (attempt >= this.retry.maxAttempts || this.stopped) {
+          for (const { entity } of plans) this.failed.add(entity.id);
+          this.emit('indexing:failed', {
+            entityIds: batch.map((entity) => entity.id),
+            error: error instanceof Error ? error.message : String(error),
+          } satisfies IndexingFailure);
+          return;
+        }
+        await new Promise((resolve) => setTimeout(resolve, this.getRetryDelay(attempt)));
+      }
+    }
+
+    // Tagged with the vectors' actual size, whatever the provider claims
+    const model: EmbeddingModel = {
+      model: await this.embedding.getModel(),
+      dimensions: embeddings[0]?.length ?? this.embedding.getDimensions(),
+    };
+
+    let offset = 0;
+    for (const { entity, texts: entityTexts } of plans) {
+      const vectors = embeddings.slice(offset, offset + entityTexts.length);
+      offset += entityTexts.length;
+
+      const chunks: EntityChunk[] = entityTexts.length > 1
+        ? entityTexts.map(({ chunk }, index) => ({
+            entityId: entity.id,
+            index,
+            text: chunk!,
+            embedding: vectors[index],
+          }))
+        : [];
+
+      // A chunked entity's own embedding is the mean of its chunks', so no
+      // single input exceeds the model's limit
+      const embedding = chunks.length > 0 ? meanVector(vectors) : vectors[0];
+
+      // Refused when the entity changed meanwhile; it stays flagged and the
+      // next pass embeds the new content
+      if (await this.storage.setEmbedding(entity.id, entity.syncVersion, embedding, chunks, model)) {
+        this.indexed++;
+        this.emit('entity:embedded', { entity, embedding, chunks, model } satisfies EmbeddedEntity);
+      }
+    }
+  }
+
+  /**
+   * Inputs to embed for an entity: its whole text, or one per chunk (with
+   * the title for context) when the content is too long for one
+   */
+  private getTexts(entity: Entity): Array<{ input: string; chunk?: string }> {
+    const chunks = this.chunking ? chunkText(entity.content, this.chunking) : [];
+
+    if (chunks.length <= 1) {
+      return [{ input: `${entity.title} ${entity.content}` }];
+    }
+    return chunks.map((chunk) => ({ input: `${entity.title}\n${chunk}`, chunk }));
+  }
+
+  /**
+   * Exponential backoff with jitter
+   */
+  private getRetryDelay(attempt: number): number {
+    const ceiling = Math.min(
+      this.retry.maxDelay,
+      this.retry.baseDelay * 2 ** (attempt - 1)
+    );
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+}
+
+/**
+ * Unit-length mean of vectors
+ */
+function meanVector(vectors: number[][]): number[] {
+  const mean = new Array<number>(vectors[0].length).fill(0);
+  for (const vector of vectors) {
+    for (let i = 0; i < mean.length; i++) mean[i] += vector[i];
+  }
+
+  const magnitude = Math.sqrt(mean.reduce((sum, val) => sum + val * val, 0));
+  return magnitude === 0 ? mean : mean.map((val) => val / magnitude);
+}
@@ -4,6 +4,9 @@
 
 import type {
   Entity,
+  EntityChunk,
+  EmbeddingModel,
+  EmbeddingStatus,
   EntityType,
   MemoryLayerType,
   MemoryLayer,
@@ -14,6 +17,10 @@ import type {
   SearchResponse,
   VectorQuery,
 } from '@unimem/types';
+import { HybridLogicalClock } from './hlc';
+import type { ChunkOptions } from './chunking';
+import { EmbeddingIndexer, type EmbeddingIndexerOptions } from './indexer';
+import type { VectorIndex } from './vector-index';
 
 // -----------------------------------------------------------------------------
 // Storage Adapter Interface
@@ -24,7 +31,7 @@ export interface StorageAdapter {
   create<T extends Entity>(entity: T): Promise<T>;
   read<T extends Entity>(id: string): Promise<T | null>;
   update<T extends Entity>(id: string, updates: Partial<T>): Promise<T>;
-  delete(id: string): Promise<void>;
+  delete(id: string, syncVersion?: string): Promise<void>;
 
   // Query operations
   query<T extends Entity>(filter: EntityFilter): Promise<T[]>;
@@ -32,7 +39,33 @@ export interface StorageAdapter {
 
   // Bulk operations
   bulkCreate<T extends Entity>(entities: T[]): Promise<T[]>;
-  bulkDelete(ids: string[]): Promise<void>;
+  bulkDelete(ids: string[], syncVersion?: string): Promise<void>;
+
+  // Embedding index. Writes flag an entity 'missing' or 'stale' until its
+  // embedding is set; setting one is not a mutation and does not sync.
+  queryByEmbeddingStatus<T extends Entity>(
+    statuses: EmbeddingStatus[],
+    limit?: number
+  ): Promise<T[]>;
+  countByEmbeddingStatus(): Promise<Record<EmbeddingStatus, number>>;
+
+  /**
+   * Store an entity's embedding and chunks (replacing earlier chunks),
+   * unless the entity changed since `syncVersion`. Returns whether it did.
+   */
+  setEmbedding(
+    id: string,
+    syncVersion: string | undefined,
+    embedding: number[],
+    chunks: EntityChunk[],
+    model: EmbeddingModel
+  ): Promise<boolean>;
+
+  /**
+   * Flag embeddings computed with any other model (or with no recorded
+   * model) stale. Returns how many entities were flagged.
+   */
+  flagOutdatedEmbeddings(model: EmbeddingModel): Promise<number>;
 
   // Stats
   getStats(): Promise<MemoryStats>;
@@ -46,6 +79,12 @@ export interface EmbeddingProvider {
   embed(text: string): Promise<number[]>;
   embedBatch(texts: string[]): Promise<number[][]>;
   getDimensions(): number;
+
+  /**
+   * Model the embeddings come from. Vectors of different models (or of one
+   * model at different dimensions) are not comparable.
+   */
+  getModel(): Promise<string>;
 }
 
 // -----------------------------------------------------------------------------
@@ -56,6 +95,28 @@ export interface MemoryEngineConfig {
   storage: StorageAdapter;
   embedding?: EmbeddingProvider;
   layers?: MemoryLayer[];
+
+  /**
+   * Clock used to stamp entity mutations (defaults to a clock with a random node ID)
+   */
+  clock?: HybridLogicalClock;
+
+  /**
+   * How long content is split into separately embedded chunks
+   * (false embeds every entity as a single vector)
+   */
+  chunking?: ChunkOptions | false;
+
+  /**
+   * Batching and retries of background embedding
+   */
+  indexing?: EmbeddingIndexerOptions;
+
+  /**
+   * In-process index answering similarity searches, for storage that can
+   * only scan (e.g. PGlite without pgvector)
+   */
+  vectorIndex?: VectorIndex;
 }
 
 // -----------------------------------------------------------------------------
@@ -105,15 +166,46 @@ export const DEFAULT_MEMORY_LAYERS: MemoryLayer[] = [
 
 type EventHandler = (event: MemoryEvent) => void;
 
+/**
+ * Emitter of entity events for changes made outside the engine; only
+ * events with source 'remote' are followed
+ */
+export interface ChangeSource {
+  on(handler: EventHandler): () => void;
+}
+
+const VECTOR_INDEX_EVENTS: MemoryEventType[] = [
+  'entity:created',
+  'entity:updated',
+  'entity:deleted',
+  'entity:embedded',
+];
+
 export class MemoryEngine {
   private storage: StorageAdapter;
   private embedding?: EmbeddingProvider;
+  private clock: HybridLogicalClock;
+  private indexer?: EmbeddingIndexer;
+  private vectorIndex?: VectorIndex;
+  private vectorIndexOpening: Promise<void> | null = null;
   private layers: Map<MemoryLayerType, MemoryLayer>;
   private eventHandlers: Map<MemoryEventType, Set<EventHandler>>;
 
   constructor(config: MemoryEngineConfig) {
     this.storage = config.storage;
     this.embedding = config.embedding;
+    this.clock = config.clock ?? new HybridLogicalClock(this.generateId());
+
+    // Entities are stored right away and embedded in the background
+    if (config.embedding) {
+      this.indexer = new EmbeddingIndexer({
+        ...config.indexing,
+        storage: config.storage,
+        embedding: config.embedding,
+        chunking: config.chunking,
+      });
+      this.indexer.on((event) => this.emit(event.type, event.payload));
+    }
     this.layers = new Map();
     this.eventHandlers = new Map();
 
@@ -122,6 +214,17 @@ export class MemoryEngine {
     for (const layer of layerConfig) {
       this.layers.set(layer.type, layer);
     }
+
+    if (config.vectorIndex && config.embedding) {
+      const vectorIndex = config.vectorIndex;
+      this.vectorIndex = vectorIndex;
+      for (const type of VECTOR_INDEX_EVENTS) {
+        this.on(type, (event) => vectorIndex.handle(event));
+      }
+      this.openVectorIndex().catch((error) =>
+        console.warn('Vector index unavailable, searching storage:', error)
+      );
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -134,22 +237,16 @@ export class MemoryEngine {
     const now = new Date();
     const id = this.generateId();
 
-    // Generate embedding if provider available
-    let embedding: number[] | undefined;
-    if (this.embedding) {
-      const textToEmbed = `${entity.title} ${entity.content}`;
-      embedding = await this.embedding.embed(textToEmbed);
-    }
-
     const fullEntity = {
       ...entity,
       id,
-      embedding,
       createdAt: now,
       updatedAt: now,
+      syncVersion: this.clock.tick(),
     } as T;
 
     const created = await this.storage.create(fullEntity);
+    this.indexer?.enqueue();
 
     this.emit('entity:created', created);
 
@@ -169,20 +266,17 @@ export class MemoryEngine {
       throw new Error(`Entity not found: ${id}`);
     }
 
-    // Re-generate embedding if content changed
-    let embedding = existing.embedding;
-    if (this.embedding && (updates.title || updates.content)) {
-      const title = updates.title ?? existing.title;
-      const content = updates.content ?? existing.content;
-      embedding = await this.embedding.embed(`${title} ${content}`);
-    }
-
     const updated = await this.storage.update<T>(id, {
       ...updates,
-      embedding,
       updatedAt: new Date(),
+      syncVersion: this.clock.tick(),
     } as Partial<T>);
 
+    // Changed text leaves the embedding stale until re-indexed
+    if (updates.title !== undefined || updates.content !== undefined) {
+      this.indexer?.enqueue();
+    }
+
     this.emit('entity:updated', updated);
 
     return updated;
@@ -191,7 +285,7 @@ export class MemoryEngine {
   async deleteEntity(id: string): Promise<void> {
     const entity = await this.storage.read(id);
     if (entity) {
-      await this.storage.delete(id);
+      await this.storage.delete(id, this.clock.tick());
       this.emit('entity:deleted', { id, entity });
     }
   }
@@ -204,6 +298,14 @@ export class MemoryEngine {
     return this.storage.query<T>(filter);
   }
 
+  /**
+   * Entities whose embedding is missing or no longer matches their content,
+   * least recently updated first
+   */
+  async queryUnindexed<T extends Entity>(limit?: number): Promise<T[]> {
+    return this.storage.queryByEmbeddingStatus<T>(['missing', 'stale'], limit);
+  }
+
   async searchSimilar<T extends Entity>(
     text: string,
     options?: Partial<VectorQuery>
@@ -213,13 +315,22 @@ export class MemoryEngine {
     }
 
     const embedding = await this.embedding.embed(text);
-
-    return this.storage.search<T>({
+    const query: VectorQuery = {
       embedding,
+      model: await this.embedding.getModel(),
       limit: options?.limit ?? 10,
       threshold: options?.threshold ?? 0.7,
       filter: options?.filter,
-    });
+    };
+
+    // Storage answers until the index is loaded, and for other models
+    if (this.vectorIndex?.canSearch(query)) {
+      return this.vectorIndex.search<T>(query, this.storage);
+    }
+    if (this.vectorIndex && !this.vectorIndex.isReady()) {
+      this.openVectorIndex().catch(() => undefined); // warned on the first failure
+    }
+    return this.storage.search<T>(query);
   }
 
   // ---------------------------------------------------------------------------
@@ -251,6 +362,103 @@ export class MemoryEngine {
     return this.storage.getStats();
   }
 
+  // ---------------------------------------------------------------------------
+  // Sync
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Clock stamping entity mutations; share it with the SyncManager so
+   * pulled versions advance it
+   */
+  getClock(): HybridLogicalClock {
+    return this.clock;
+  }
+
+  /**
+   * Follow entity changes another writer makes to storage, such as the
+   * SyncManager applying pulled changes: the vector index re-reads the
+   * changed entities and the indexer embeds those left pending. Returns an
+   * unsubscribe function.
+   */
+  followChanges(source: ChangeSource): () => void {
+    return source.on((event) => {
+      if (event.source !== 'remote') return;
+
+      this.applyRemoteChange(event).catch((error) =>
+        console.error(`Error applying remote ${event.type}:`, error)
+      );
+    });
+  }
+
+  /**
+   * Background indexer embedding written entities (none without an
+   * embedding provider). Start it to catch up on entities written by sync
+   * or before a restart, and to re-embed after a model change.
+   */
+  getIndexer(): EmbeddingIndexer | undefined {
+    return this.indexer;
+  }
+
+  /**
+   * Load the vector index, flagging embeddings of other models first so
+   * only the current model's are indexed. Started on construction; a failed
+   * attempt is retried on the next call.
+   */
+  openVectorIndex(): Promise<void> {
+    if (!this.vectorIndex || !this.embedding || !this.indexer) return Promise.resolve();
+
+    const vectorIndex = this.vectorIndex;
+    const embedding = this.embedding;
+    const indexer = this.indexer;
+
+    this.vectorIndexOpening ??= (async () => {
+      await indexer.checkModel();
+      await vectorIndex.open(this.storage, {
+        model: await embedding.getModel(),
+        dimensions: embedding.getDimensions(),
+      });
+    })().catch((error) => {
+      this.vectorIndexOpening = null;
+      throw error;
+    });
+    return this.vectorIndexOpening;
+  }
+
+  /**
+   * Stop background work before the storage closes: the indexer finishes
+   * its batch in flight and the vector index writes pending changes now
+   */
+  async stop(): Promise<void> {
+    await this.indexer?.stop();
+    await this.vectorIndexOpening?.catch(() => undefined);
+    await this.vectorIndex?.close();
+  }
+
+  private async applyRemoteChange(event: MemoryEvent): Promise<void> {
+    switch (event.type) {
+      case 'entity:created':
+      case 'entity:updated': {
+        const { id } = event.payload as Entity;
+        this.indexer?.enqueue();
+        if (!this.vectorIndex) return;
+
+        // The event holds the remote version; the index has to match what
+        // storage kept, e.g. the local embedding of unchanged text
+        const stored = await this.storage.read(id);
+        this.vectorIndex.handle(
+          stored
+            ? { ...event, payload: stored }
+            : { ...event, type: 'entity:deleted', payload: { id } }
+        );
+        return;
+      }
+
+      case 'entity:deleted':
+        this.vectorIndex?.handle(event);
+        return;
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // Event System
   // ---------------------------------------------------------------------------
@@ -0,0 +1,421 @@
+// =============================================================================
+// Three-Way Merge - Field-level reconciliation of concurrent entity edits
+// =============================================================================
+
+import type { Entity, EntityLink } from '@unimem/types';
+
+// -----------------------------------------------------------------------------
+// Merge Types
+// -----------------------------------------------------------------------------
+
+export type MergeSide = 'local' | 'remote';
+
+export interface MergeOptions {
+  /**
+   * Side taken for changes that cannot be reconciled.
+   * When omitted, text conflicts are kept with conflict markers and
+   * scalar conflicts keep the local value; both are reported as unresolved.
+   */
+  prefer?: MergeSide;
+}
+
+export interface MergeResult {
+  entity: Entity;
+  /**
+   * Fields both sides changed in incompatible ways
+   */
+  unresolved: string[];
+}
+
+export interface TextMergeResult {
+  text: string;
+  conflicted: boolean;
+}
+
+export const CONFLICT_MARKERS = {
+  local: '<<<<<<< local',
+  separator: '=======',
+  remote: '>>>>>>> remote',
+};
+
+// Fields merged explicitly, or not merged at all
+const STRUCTURAL_FIELDS = new Set([
+  'id', 'title', 'content', 'embedding', 'links', 'tags',
+  'createdAt', 'updatedAt', 'syncVersion',
+]);
+
+// -----------------------------------------------------------------------------
+// Entity Merge
+// -----------------------------------------------------------------------------
+
+/**
+ * Merge two versions of an entity that were both derived from `base`.
+ * Tags and links merge as sets, other fields per key, and content line by line.
+ */
+export function mergeEntities(
+  base: Entity,
+  local: Entity,
+  remote: Entity,
+  options: MergeOptions = {}
+): MergeResult {
+  const unresolved: string[] = [];
+  const merged: Record<string, unknown> = { ...local };
+
+  // Title and type-specific fields: per-key three-way merge
+  const keys = new Set([
+    ...Object.keys(base),
+    ...Object.keys(local),
+    ...Object.keys(remote),
+  ]);
+  keys.add('title');
+
+  for (const key of keys) {
+    if (STRUCTURAL_FIELDS.has(key) && key !== 'title') continue;
+
+    const value = mergeValue(
+      (base as unknown as Record<string, unknown>)[key],
+      (local as unknown as Record<string, unknown>)[key],
+      (remote as unknown as Record<string, unknown>)[key],
+      options.prefer
+    );
+
+    if (value.conflicted) unresolved.push(key);
+    if (value.value === undefined) {
+      delete merged[key];
+    } else {
+      merged[key] = value.value;
+    }
+  }
+
+  // Content: line-based merge
+  const content = mergeText(base.content, local.content, remote.content, options);
+  if (content.conflicted) unresolved.push('content');
+  merged.content = content.text;
+
+  // Relations: set semantics
+  merged.tags = mergeSets(base.tags, local.tags, remote.tags, (tag) => tag);
+  merged.links = mergeLinks(base.links, local.links, remote.links, options.prefer);
+
+  // Embedding follows the side whose content survived, if any
+  merged.embedding =
+    content.text === remote.content && content.text !== local.content
+      ? remote.embedding
+      : local.embedding;
+
+  merged.createdAt = earliest(local.createdAt, remote.createdAt);
+  merged.updatedAt = latest(local.updatedAt, remote.updatedAt);
+
+  return {
+    entity: merged as unknown as Entity,
+    unresolved,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Set Merge
+// -----------------------------------------------------------------------------
+
+/**
+ * Keep items present on every side, plus whatever either side added.
+ * An item removed on either side stays removed.
+ */
+export function mergeSets<T>(
+  base: T[],
+  local: T[],
+  remote: T[],
+  keyOf: (item: T) => string
+): T[] {
+  const baseKeys = new Set(base.map(keyOf));
+  const localKeys = new Set(local.map(keyOf));
+  const remoteKeys = new Set(remote.map(keyOf));
+
+  const result = new Map<string, T>();
+  for (const item of [...local, ...remote]) {
+    const key = keyOf(item);
+    if (result.has(key)) continue;
+
+    const kept = baseKeys.has(key)
+      ? localKeys.has(key) && remoteKeys.has(key)
+      : true;
+    if (kept) result.set(key, item);
+  }
+
+  return Array.from(result.values());
+}
+
+function mergeLinks(
+  base: EntityLink[],
+  local: EntityLink[],
+  remote: EntityLink[],
+  prefer?: MergeSide
+): EntityLink[] {
+  const keyOf = (link: EntityLink) => `${link.targetId}:${link.relationship}`;
+  const members = mergeSets(base, local, remote, keyOf);
+
+  // A link kept on both sides may still have changed (e.g. its strength)
+  const baseByKey = new Map(base.map((link) => [keyOf(link), link]));
+  const localByKey = new Map(local.map((link) => [keyOf(link), link]));
+  const remoteByKey = new Map(remote.map((link) => [keyOf(link), link]));
+
+  return members.map((link) => {
+    const key = keyOf(link);
+    const localLink = localByKey.get(key);
+    const remoteLink = remoteByKey.get(key);
+    if (!localLink || !remoteLink) return link;
+
+    const value = mergeValue(baseByKey.get(key), localLink, remoteLink, prefer ?? 'local');
+    return value.value as EntityLink;
+  });
+}
+
+// -----------------------------------------------------------------------------
+// Value Merge
+// -----------------------------------------------------------------------------
+
+function mergeValue(
+  base: unknown,
+  local: unknown,
+  remote: unknown,
+  prefer?: MergeSide
+): { value: unknown; conflicted: boolean } {
+  if (isEqual(local, remote)) return { value: local, conflicted: false };
+  if (isEqual(base, local)) return { value: remote, conflicted: false };
+  if (isEqual(base, remote)) return { value: local, conflicted: false };
+
+  return {
+    value: prefer === 'remote' ? remote : local,
+    conflicted: prefer === undefined,
+  };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function earliest(a: Date, b: Date): Date {
+  return new Date(Math.min(new Date(a).getTime(), new Date(b).getTime()));
+}
+
+function latest(a: Date, b: Date): Date {
+  return new Date(Math.max(new Date(a).getTime(), new Date(b).getTime()));
+}
+
+// -----------------------------------------------------------------------------
+// Text Merge (diff3)
+// -----------------------------------------------------------------------------
+
+/**
+ * Line-based three-way merge. Hunks changed differently on both sides are
+ * wrapped in conflict markers, unless `prefer` picks a side.
+ */
+export function mergeText(
+  base: string,
+  local: string,
+  remote: string,
+  options: MergeOptions = {}
+): TextMergeResult {
+  if (local === remote) return { text: local, conflicted: false };
+  if (base === local) return { text: remote, conflicted: false };
+  if (base === remote) return { text: local, conflicted: false };
+
+  const o = base.split('\n');
+  const a = local.split('\n');
+  const b = remote.split('\n');
+
+  const matchA = matchLines(o, a);
+  const matchB = matchLines(o, b);
+
+  const output: string[] = [];
+  let conflicted = false;
+
+  const emitChunk = (oi: number, oj: number, ai: number, aj: number, bi: number, bj: number) => {
+    const chunkO = o.slice(oi, oj);
+    const chunkA = a.slice(ai, aj);
+    const chunkB = b.slice(bi, bj);
+
+    if (linesEqual(chunkA, chunkB) || linesEqual(chunkO, chunkB)) {
+      output.push(...chunkA);
+    } else if (linesEqual(chunkO, chunkA)) {
+      output.push(...chunkB);
+    } else if (options.prefer) {
+      output.push(...(options.prefer === 'local' ? chunkA : chunkB));
+    } else {
+      conflicted = true;
+      output.push(
+        CONFLICT_MARKERS.local,
+        ...chunkA,
+        CONFLICT_MARKERS.separator,
+        ...chunkB,
+        CONFLICT_MARKERS.remote
+      );
+    }
+  };
+
+  let oi = 0;
+  let ai = 0;
+  let bi = 0;
+
+  while (oi < o.length) {
+    // Next base line kept by both sides
+    let j = oi;
+    while (j < o.length && (matchA[j] < ai || matchB[j] < bi)) j++;
+
+    if (j === o.length) break;
+
+    if (j === oi && matchA[j] === ai && matchB[j] === bi) {
+      output.push(o[j]);
+      oi++;
+      ai++;
+      bi++;
+      continue;
+    }
+
+    emitChunk(oi, j, ai, matchA[j], bi, matchB[j]);
+    oi = j;
+    ai = matchA[j];
+    bi = matchB[j];
+  }
+
+  emitChunk(oi, o.length, ai, a.length, bi, b.length);
+
+  return { text: output.join('\n'), conflicted };
+}
+
+function linesEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * For each line of `base`, the index of the line it matches in `other`
+ * along a longest common subsequence, or -1. Myers' diff in linear space:
+ * memory grows with the line count, never with its square.
+ */
+function matchLines(base: string[], other: string[]): number[] {
+  const match = new Array<number>(base.length).fill(-1);
+
+  // Lines as numbers, so the diff compares integers
+  const ids = new Map<string, number>();
+  const toIds = (lines: string[]) =>
+    Int32Array.from(lines, (line) => {
+      let id = ids.get(line);
+      if (id === undefined) {
+        id = ids.size;
+        ids.set(line, id);
+      }
+      return id;
+    });
+
+  matchRange(toIds(base), 0, base.length, toIds(other), 0, other.length, match);
+  return match;
+}
+
+/**
+ * Match base[baseStart..baseEnd) against other[otherStart..otherEnd): trim
+ * the common ends, then split around the middle snake of the shortest edit
+ * script and recurse into both halves
+ */
+function matchRange(
+  base: Int32Array,
+  baseStart: number,
+  baseEnd: number,
+  other: Int32Array,
+  otherStart: number,
+  otherEnd: number,
+  match: number[]
+): void {
+  while (baseStart < baseEnd && otherStart < otherEnd && base[baseStart] === other[otherStart]) {
+    match[baseStart++] = otherStart++;
+  }
+  while (baseStart < baseEnd && otherStart < otherEnd && base[baseEnd - 1] === other[otherEnd - 1]) {
+    match[--baseEnd] = --otherEnd;
+  }
+  if (baseStart === baseEnd || otherStart === otherEnd) return;
+
+  const snake = middleSnake(base, baseStart, baseEnd, other, otherStart, otherEnd);
+
+  matchRange(base, baseStart, baseStart + snake.x, other, otherStart, otherStart + snake.y, match);
+  for (let i = 0; i < snake.u - snake.x; i++) {
+    match[baseStart + snake.x + i] = otherStart + snake.y + i;
+  }
+  matchRange(base, baseStart + snake.u, baseEnd, other, otherStart + snake.v, otherEnd, match);
+}
+
+/**
+ * Diagonal run crossed by the middle of a shortest edit script, found by
+ * searching from both ends at once. Coordinates are relative to the range
+ * starts: the run goes from (x, y) to (u, v).
+ */
+function middleSnake(
+  base: Int32Array,
+  baseStart: number,
+  baseEnd: number,
+  other: Int32Array,
+  otherStart: number,
+  otherEnd: number
+): { x: number; y: number; u: number; v: number } {
+  const n = baseEnd - baseStart;
+  const m = otherEnd - otherStart;
+  const delta = n - m;
+  const odd = (delta & 1) === 1;
+  const maxD = Math.ceil((n + m) / 2);
+
+  // Furthest x reached on each diagonal k = x - y, forwards and (on the
+  // reversed sequences) backwards
+  const offset = maxD + 1;
+  const forward = new Int32Array(2 * offset + 1);
+  const backward = new Int32Array(2 * offset + 1);
+
+  for (let d = 0; d <= maxD; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+          ? forward[offset + k + 1]
+          : forward[offset + k - 1] + 1;
+      let y = x - k;
+      const startX = x;
+      const startY = y;
+      while (x < n && y < m && base[baseStart + x] === other[otherStart + y]) {
+        x++;
+        y++;
+      }
+      forward[offset + k] = x;
+
+      // Reaches a backward path from the previous round
+      const c = delta - k;
+      if (odd && c >= -(d - 1) && c <= d - 1 && x + backward[offset + c] >= n) {
+        return { x: startX, y: startY, u: x, v: y };
+      }
+    }
+
+    for (let c = -d; c <= d; c += 2) {
+      let x =
+        c === -d || (c !== d && backward[offset + c - 1] < backward[offset + c + 1])
+          ? backward[offset + c + 1]
+          : backward[offset + c - 1] + 1;
+      let y = x - c;
+      const startX = x;
+      const startY = y;
+      while (
+        x < n &&
+        y < m &&
+        base[baseEnd - 1 - x] === other[otherEnd - 1 - y]
+      ) {
+        x++;
+        y++;
+      }
+      backward[offset + c] = x;
+
+      const k = delta - c;
+      if (!odd && k >= -d && k <= d && x + forward[offset + k] >= n) {
+        return { x: n - x, y: m - y, u: n - startX, v: m - startY };
+      }
+    }
+  }
+
+  throw new Error('Middle snake not found');
+}
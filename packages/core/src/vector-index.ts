@@ -0,0 +1,447 @@
+// =============================================================================
+// Vector Index - In-process similarity search for storage without pgvector
+// =============================================================================
+
+import type {
+  Entity,
+  EmbeddingModel,
+  MemoryEvent,
+  SearchResponse,
+  SearchResult,
+  VectorQuery,
+} from '@unimem/types';
+import type { StorageAdapter } from './memory-engine';
+import type { EmbeddedEntity } from './indexer';
+import { HnswIndex, type HnswOptions, type HnswSnapshot } from './hnsw';
+import { matchesFilter } from './filter';
+
+// -----------------------------------------------------------------------------
+// Vector Index Configuration
+// -----------------------------------------------------------------------------
+
+/**
+ * Where the serialized index persists between sessions
+ */
+export interface VectorIndexStore {
+  load(): Promise<string | null>;
+  save(data: string): Promise<void>;
+}
+
+export interface VectorIndexConfig extends HnswOptions {
+  store?: VectorIndexStore; // none keeps the index in memory only
+  saveDelay?: number;       // milliseconds after a change, so bursts share a save
+}
+
+/**
+ * What search filters and highlights need of an indexed entity
+ */
+interface IndexedEntity extends Pick<Entity, 'type' | 'memoryLayer' | 'tags' | 'createdAt'> {
+  chunks: string[]; // texts of the entity's chunks, by index
+}
+
+interface VectorIndexSnapshot {
+  version: 1;
+  model: EmbeddingModel;
+  entities: Array<[string, IndexedEntity]>;
+  graph: HnswSnapshot;
+}
+
+const DEFAULT_SAVE_DELAY = 5000;
+
+// Matches fetched per requested result: several chunks of one entity can
+// crowd the nearest ones
+const CHUNK_OVERFETCH = 4;
+
+// An event's embedding at least this similar to the indexed one is the same
+// vector, read back from storage
+const SAME_VECTOR = 1 - 1e-5;
+
+// Vectors inserted between yields to the event loop while reconciling
+const RECONCILE_BATCH_SIZE = 100;
+
+// -----------------------------------------------------------------------------
+// Vector Index
+// -----------------------------------------------------------------------------
+
+/**
+ * HNSW index over the embeddings of one model, kept current from entity
+ * events: 'entity:embedded' adds vectors, 'entity:deleted' removes them, and
+ * 'entity:created' or 'entity:updated' drop an entity whose stored embedding
+ * was replaced by one of unknown model (e.g. pulled by sync). Chunks are
+ * indexed alongside their entity, as in StorageAdapter.search.
+ */
+export class VectorIndex {
+  private options: HnswOptions;
+  private store: VectorIndexStore | null;
+  private saveDelay: number;
+
+  private model: EmbeddingModel | null = null;
+  private graph: HnswIndex | null = null;
+  private entities = new Map<string, IndexedEntity>();
+
+  private opening: Promise<void> | null = null;
+  private ready = false;
+  private pending: MemoryEvent[] = [];
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(config: VectorIndexConfig = {}) {
+    this.options = {
+      m: config.m,
+      efConstruction: config.efConstruction,
+      efSearch: config.efSearch,
+    };
+    this.store = config.store ?? null;
+    this.saveDelay = config.saveDelay ?? DEFAULT_SAVE_DELAY;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Lifecycle
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Load the saved index and catch it up with storage, or build it from
+   * storage when there is none or it holds another model's embeddings.
+   * Storage must already be flagged against `model` (see
+   * EmbeddingIndexer.checkModel), so its 'indexed' entities carry this
+   * model's embeddings. Events received meanwhile apply once it is ready.
+   */
+  open(storage: StorageAdapter, model: EmbeddingModel): Promise<void> {
+    this.opening ??= this.load(storage, model).catch((error) => {
+      this.opening = null;
+      throw error;
+    });
+    return this.opening;
+  }
+
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  get size(): number {
+    return this.entities.size;
+  }
+
+  /**
+   * Whether the index can answer a query: it is loaded and holds
+   * embeddings of the query's model
+   */
+  canSearch(query: VectorQuery): boolean {
+    return (
+      this.ready &&
+      this.model !== null &&
+      query.model === this.model.model &&
+      query.embedding.length === this.model.dimensions
+    );
+  }
+
+  /**
+   * Write the index to its store now
+   */
+  async save(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.store || !this.ready || !this.model || !this.graph) return;
+
+    const snapshot: VectorIndexSnapshot = {
+      version: 1,
+      model: this.model,
+      entities: Array.from(this.entities),
+      graph: this.graph.serialize(),
+    };
+    await this.store.save(JSON.stringify(snapshot));
+  }
+
+  /**
+   * Write pending changes now and schedule no further saves, e.g. before
+   * the store's database closes
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.saveTimer) await this.save();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Events
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Apply an entity event. Before open() there is nothing to update: opening
+   * reads the current state from storage.
+   */
+  handle(event: MemoryEvent): void {
+    if (!this.ready) {
+      if (this.opening) this.pending.push(event);
+      return;
+    }
+
+    if (this.apply(event)) this.scheduleSave();
+  }
+
+  /**
+   * Returns whether the index changed
+   */
+  private apply(event: MemoryEvent): boolean {
+    switch (event.type) {
+      case 'entity:embedded': {
+        const { entity, embedding, chunks, model } = event.payload as EmbeddedEntity;
+        if (
+          !this.graph ||
+          this.model?.model !== model.model ||
+          this.model.dimensions !== model.dimensions
+        ) {
+          this.reset(model);
+        }
+
+        this.removeEntity(entity.id);
+        this.graph!.add(entity.id, embedding);
+        for (const chunk of chunks) {
+          this.graph!.add(chunkNodeId(entity.id, chunk.index), chunk.embedding);
+        }
+        this.entities.set(entity.id, {
+          ...filterFields(entity),
+          chunks: chunks.map((chunk) => chunk.text),
+        });
+        return true;
+      }
+
+      case 'entity:created':
+      case 'entity:updated': {
+        const entity = event.payload as Entity;
+        const indexed = this.entities.get(entity.id);
+        if (!indexed) return false;
+
+        // Text edits keep the embedding (stale until re-embedded), as in
+        // storage; a replaced embedding has no known model
+        const similarity = entity.embedding?.length
+          ? this.graph!.similarity(entity.id, entity.embedding)
+          : null;
+        if (similarity === null || similarity < SAME_VECTOR) {
+          return this.removeEntity(entity.id);
+        }
+
+        this.entities.set(entity.id, { ...filterFields(entity), chunks: indexed.chunks });
+        return true;
+      }
+
+      case 'entity:deleted': {
+        const { id } = event.payload as { id: string };
+        return this.removeEntity(id);
+      }
+
+      default:
+        return false;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Search
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Same ranking as StorageAdapter.search: an entity scores by its own
+   * embedding or its best chunk, whichever is higher, with that chunk as a
+   * highlight. Matching entities are read from storage.
+   */
+  async search<T extends Entity>(
+    query: VectorQuery,
+    storage: StorageAdapter
+  ): Promise<SearchResponse<T>> {
+    const startTime = Date.now();
+    if (!this.canSearch(query)) {
+      throw new Error('Vector index cannot answer this query; check canSearch() first');
+    }
+
+    const graph = this.graph!;
+    const limit = query.limit ?? 10;
+    const filter = query.filter ?? {};
+
+    const matches = graph.search(query.embedding, limit * CHUNK_OVERFETCH, {
+      filter: (nodeId) => {
+        const indexed = this.entities.get(entityIdOf(nodeId));
+        return indexed !== undefined && matchesFilter(indexed, filter);
+      },
+    });
+
+    const ranked = [...new Set(matches.map((match) => entityIdOf(match.id)))]
+      .map((id) => {
+        const chunks = this.entities.get(id)!.chunks;
+        let score = graph.similarity(id, query.embedding) ?? -Infinity;
+        let highlight: string | undefined;
+        let bestChunk = -Infinity;
+
+        chunks.forEach((text, index) => {
+          const chunkScore = graph.similarity(chunkNodeId(id, index), query.embedding);
+          if (chunkScore !== null && chunkScore > bestChunk) {
+            bestChunk = chunkScore;
+            highlight = text;
+          }
+        });
+        score = Math.max(score, bestChunk);
+
+        return { id, score, highlight };
+      })
+      .filter((candidate) => candidate.score >= (query.threshold ?? 0))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    // Entities deleted meanwhile are left out
+    const entities = await Promise.all(ranked.map(({ id }) => storage.read<T>(id)));
+    const results: SearchResult<T>[] = ranked.flatMap(({ score, highlight }, i) => {
+      const entity = entities[i];
+      if (!entity) return [];
+      return [{ entity, score, ...(highlight !== undefined && { highlights: [highlight] }) }];
+    });
+
+    return {
+      results,
+      total: results.length,
+      query: '', // Vector query doesn't have text
+      took: Date.now() - startTime,
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Private Helpers
+  // ---------------------------------------------------------------------------
+
+  private async load(storage: StorageAdapter, model: EmbeddingModel): Promise<void> {
+    const snapshot = await this.readSnapshot();
+
+    if (
+      snapshot &&
+      snapshot.model.model === model.model &&
+      snapshot.model.dimensions === model.dimensions
+    ) {
+      this.model = snapshot.model;
+      this.graph = HnswIndex.deserialize(snapshot.graph);
+      this.entities = new Map(
+        snapshot.entities.map(([id, indexed]) => [
+          id,
+          { ...indexed, createdAt: new Date(indexed.createdAt) },
+        ])
+      );
+    } else {
+      this.reset(model);
+    }
+
+    let changed = await this.reconcile(storage);
+
+    this.ready = true;
+    for (const event of this.pending.splice(0)) {
+      changed = this.apply(event) || changed;
+    }
+    if (changed) this.scheduleSave();
+  }
+
+  /**
+   * Bring a loaded snapshot (or an empty index) up to date with storage:
+   * saves lag writes by `saveDelay`. Returns whether anything changed.
+   */
+  private async reconcile(storage: StorageAdapter): Promise<boolean> {
+    const graph = this.graph!;
+    const [current, stale] = await Promise.all([
+      storage.queryByEmbeddingStatus(['indexed']),
+      storage.queryByEmbeddingStatus(['stale']),
+    ]);
+
+    const unchanged = (entity: Entity) => {
+      const similarity = entity.embedding?.length
+        ? graph.similarity(entity.id, entity.embedding)
+        : null;
+      return this.entities.has(entity.id) && similarity !== null && similarity >= SAME_VECTOR;
+    };
+
+    let changed = false;
+    const stored = new Set<string>();
+
+    // Stale embeddings stay only if indexed before their text changed
+    for (const entity of stale) {
+      stored.add(entity.id);
+      if (!unchanged(entity)) changed = this.removeEntity(entity.id) || changed;
+    }
+
+    let added = 0;
+    for (const entity of current) {
+      stored.add(entity.id);
+      if (unchanged(entity)) continue;
+
+      // Chunks are not readable through StorageAdapter; chunked entities
+      // regain them when next embedded
+      this.removeEntity(entity.id);
+      if (entity.embedding?.length !== this.model!.dimensions) continue;
+      graph.add(entity.id, entity.embedding);
+      this.entities.set(entity.id, { ...filterFields(entity), chunks: [] });
+      changed = true;
+
+      // Building is CPU-bound; yield so a large rebuild does not block the UI
+      if (++added % RECONCILE_BATCH_SIZE === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+    }
+
+    for (const id of [...this.entities.keys()]) {
+      if (!stored.has(id)) changed = this.removeEntity(id) || changed;
+    }
+
+    return changed;
+  }
+
+  private async readSnapshot(): Promise<VectorIndexSnapshot | null> {
+    const data = await this.store?.load();
+    if (!data) return null;
+
+    try {
+      const snapshot = JSON.parse(data) as VectorIndexSnapshot;
+      return snapshot.version === 1 ? snapshot : null;
+    } catch (error) {
+      console.warn('Discarding unreadable vector index snapshot:', error);
+      return null;
+    }
+  }
+
+  private reset(model: EmbeddingModel): void {
+    this.model = { model: model.model, dimensions: model.dimensions };
+    this.graph = new HnswIndex(model.dimensions, this.options);
+    this.entities.clear();
+  }
+
+  private removeEntity(id: string): boolean {
+    const indexed = this.entities.get(id);
+    if (!indexed) return false;
+
+    this.graph!.remove(id);
+    indexed.chunks.forEach((_, index) => this.graph!.remove(chunkNodeId(id, index)));
+    this.entities.delete(id);
+    return true;
+  }
+
+  private scheduleSave(): void {
+    if (!this.store || this.saveTimer || this.closed) return;
+
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch((error) => console.error('Failed to save vector index:', error));
+    }, this.saveDelay);
+  }
+}
+
+function filterFields(entity: Entity): Omit<IndexedEntity, 'chunks'> {
+  return {
+    type: entity.type,
+    memoryLayer: entity.memoryLayer,
+    tags: entity.tags,
+    createdAt: entity.createdAt,
+  };
+}
+
+function chunkNodeId(entityId: string, index: number): string {
+  return `${entityId}#${index}`;
+}
+
+function entityIdOf(nodeId: string): string {
+  const separator = nodeId.indexOf('#');
+  return separator === -1 ? nodeId : nodeId.slice(0, separator);
+}
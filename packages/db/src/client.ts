@@ -3,8 +3,17 @@
 // =============================================================================
 
 import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite/vector';
 import { drizzle } from 'drizzle-orm/pglite';
 import * as schema from './schema';
+import {
+  quantize,
+  dequantize,
+  getCodeType,
+  codeTypeSql,
+  type QuantizationType,
+} from './quantization';
+import { runMigrations, getMigrationStatus, type MigrationStatus } from './migrations';
 
 // -----------------------------------------------------------------------------
 // Database Client Configuration
@@ -20,16 +29,57 @@ export interface DatabaseConfig {
   dataDir: string;
 
   /**
-   * Enable pgvector extension
+   * Enable pgvector: embeddings are stored as vectors and searched in SQL
+   * through HNSW indexes. Without it (or when the extension fails to load)
+   * they stay REAL[] and search compares them in JavaScript. A database
+   * migrated to vectors needs pgvector to open.
    */
   enableVector?: boolean;
 
   /**
-   * Vector dimensions for embedding storage
+   * Embedding size indexed on startup; indexes for other sizes are created
+   * once a model producing them is in use
    */
   vectorDimensions?: number;
+
+  /**
+   * Store embeddings as int8 or binary codes instead of float vectors (see
+   * quantization.ts). Searches then scan the codes in JavaScript, without
+   * pgvector's indexes. Existing embeddings are converted on startup; going
+   * back to a finer setting flags coarser ones for re-embedding.
+   */
+  quantization?: QuantizationType | QuantizationOptions;
+}
+
+export interface QuantizationOptions {
+  type: QuantizationType;
+
+  /**
+   * Candidates rescored with the full-precision query per requested
+   * result (default 4 for int8, 10 for binary)
+   */
+  rescoreFactor?: number;
 }
 
+// pgvector cannot build HNSW indexes on larger vectors; searches over them
+// still run in SQL, as exact scans
+const MAX_HNSW_DIMENSIONS = 2000;
+
+const DEFAULT_RESCORE_FACTOR: Record<QuantizationType, number> = {
+  int8: 4,
+  binary: 10,
+};
+
+// Rows converted per statement batch when the quantization setting changes
+const CONVERSION_BATCH_SIZE = 256;
+
+// Precision of each storage format, to tell when a conversion loses detail
+const PRECISION: Record<QuantizationType | 'none', number> = {
+  none: 2,
+  int8: 1,
+  binary: 0,
+};
+
 // -----------------------------------------------------------------------------
 // Database Client
 // -----------------------------------------------------------------------------
@@ -39,6 +89,9 @@ export class DatabaseClient {
   private db: ReturnType<typeof drizzle<typeof schema>> | null = null;
   private config: DatabaseConfig;
   private initialized = false;
+  private vectorEnabled = false;
+  private vectorIndexes = new Set<number>();
+  private quantization: Required<QuantizationOptions> | null;
 
   constructor(config: DatabaseConfig) {
     this.config = {
@@ -46,6 +99,16 @@ export class DatabaseClient {
       vectorDimensions: 1536,
       ...config,
     };
+
+    const quantization = typeof config.quantization === 'string'
+      ? { type: config.quantization }
+      : config.quantization;
+    this.quantization = quantization
+      ? {
+          type: quantization.type,
+          rescoreFactor: quantization.rescoreFactor ?? DEFAULT_RESCORE_FACTOR[quantization.type],
+        }
+      : null;
   }
 
   /**
@@ -55,7 +118,9 @@ export class DatabaseClient {
     if (this.initialized) return;
 
     // Create PGlite instance
-    this.pglite = new PGlite(this.config.dataDir);
+    this.pglite = new PGlite(this.config.dataDir, {
+      extensions: this.config.enableVector ? { vector } : {},
+    });
 
     // Create Drizzle instance
     this.db = drizzle(this.pglite, { schema });
@@ -94,6 +159,52 @@ export class DatabaseClient {
     return pg.query(sql, params);
   }
 
+  /**
+   * Whether embeddings are stored as pgvector vectors
+   */
+  hasVectorSupport(): boolean {
+    return this.vectorEnabled;
+  }
+
+  /**
+   * How embeddings are quantized, or null when stored at full precision
+   */
+  getQuantization(): Required<QuantizationOptions> | null {
+    return this.quantization;
+  }
+
+  /**
+   * Schema migrations known to this build, with when each was applied
+   */
+  async getMigrationStatus(): Promise<MigrationStatus[]> {
+    return getMigrationStatus(this.getPGlite());
+  }
+
+  /**
+   * Create the HNSW indexes for embeddings of a size. Each index covers only
+   * the rows of its size, so embeddings from several models can coexist.
+   * Returns whether the size is indexed.
+   */
+  async ensureVectorIndex(dimensions: number): Promise<boolean> {
+    if (!this.vectorEnabled) return false;
+    if (!Number.isInteger(dimensions) || dimensions < 1 || dimensions > MAX_HNSW_DIMENSIONS) {
+      return false;
+    }
+    if (this.vectorIndexes.has(dimensions)) return true;
+
+    await this.getPGlite().exec(`
+      CREATE INDEX IF NOT EXISTS idx_entities_embedding_hnsw_${dimensions} ON entities
+        USING hnsw ((embedding::vector(${dimensions})) vector_cosine_ops)
+        WHERE vector_dims(embedding) = ${dimensions};
+      CREATE INDEX IF NOT EXISTS idx_entity_chunks_embedding_hnsw_${dimensions} ON entity_chunks
+        USING hnsw ((embedding::vector(${dimensions})) vector_cosine_ops)
+        WHERE vector_dims(embedding) = ${dimensions};
+    `);
+
+    this.vectorIndexes.add(dimensions);
+    return true;
+  }
+
   /**
    * Close the database connection
    */
@@ -103,6 +214,8 @@ export class DatabaseClient {
       this.pglite = null;
       this.db = null;
       this.initialized = false;
+      this.vectorEnabled = false;
+      this.vectorIndexes.clear();
     }
   }
 
@@ -117,110 +230,140 @@ export class DatabaseClient {
     if (this.config.enableVector) {
       try {
         await pg.query('CREATE EXTENSION IF NOT EXISTS vector');
+        this.vectorEnabled = true;
       } catch {
         console.warn('pgvector extension not available, using fallback');
       }
     }
 
-    // Create tables
-    await pg.query(`
-      -- Entities table
-      CREATE TABLE IF NOT EXISTS entities (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        type TEXT NOT NULL,
-        memory_layer TEXT NOT NULL,
-        title TEXT NOT NULL,
-        content TEXT NOT NULL,
-        embedding REAL[],
-        metadata JSONB,
-        links JSONB DEFAULT '[]',
-        tags TEXT[] DEFAULT '{}',
-        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
-        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
-        sync_status TEXT DEFAULT 'synced',
-        sync_version TEXT
-      );
-
-      -- Indexes
-      CREATE INDEX IF NOT EXISTS idx_entities_type ON entities(type);
-      CREATE INDEX IF NOT EXISTS idx_entities_memory_layer ON entities(memory_layer);
-      CREATE INDEX IF NOT EXISTS idx_entities_created_at ON entities(created_at);
-      CREATE INDEX IF NOT EXISTS idx_entities_updated_at ON entities(updated_at);
-
-      -- Daily notes
-      CREATE TABLE IF NOT EXISTS daily_notes (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
-        date TEXT NOT NULL UNIQUE,
-        summary TEXT
-      );
-
-      -- People
-      CREATE TABLE IF NOT EXISTS people (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
-        email TEXT,
-        company TEXT,
-        role TEXT,
-        last_contact TIMESTAMP
-      );
-
-      -- Companies
-      CREATE TABLE IF NOT EXISTS companies (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
-        industry TEXT,
-        website TEXT
-      );
+    // Bring the schema to the latest version
+    await runMigrations(pg);
+
+    // Then bring embeddings to the storage format this client is configured
+    // for. These are not versioned migrations: the format follows the
+    // configuration (whether pgvector loaded, the quantization setting),
+    // which can differ between opens of one database and switch back and
+    // forth. Each step checks the stored format and does nothing when it
+    // already matches.
+    if (this.vectorEnabled) {
+      await this.migrateToVectors();
+      await this.ensureVectorIndex(this.config.vectorDimensions!);
+    }
 
-      -- Projects
-      CREATE TABLE IF NOT EXISTS projects (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
-        status TEXT NOT NULL DEFAULT 'active',
-        start_date TIMESTAMP,
-        end_date TIMESTAMP
-      );
+    await this.convertEmbeddings();
+  }
 
-      -- Tasks
-      CREATE TABLE IF NOT EXISTS tasks (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
-        status TEXT NOT NULL DEFAULT 'todo',
-        priority TEXT NOT NULL DEFAULT 'medium',
-        due_date TIMESTAMP,
-        project_id UUID REFERENCES projects(id)
-      );
+  /**
+   * Convert REAL[] embedding columns to unconstrained vectors, so embeddings
+   * of any size still fit; the indexes fix the size instead. Tables are
+   * created as REAL[] (see schema.ts), so this runs whenever pgvector loads;
+   * columns already converted are left alone.
+   */
+  private async migrateToVectors(): Promise<void> {
+    const pg = this.getPGlite();
 
-      CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status);
-      CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date);
+    const { rows } = await pg.query<{ table_name: string }>(`
+      SELECT table_name FROM information_schema.columns
+      WHERE table_name IN ('entities', 'entity_chunks')
+        AND column_name = 'embedding'
+        AND data_type = 'ARRAY'
+    `);
+    const tables = new Set(rows.map((row) => row.table_name));
+
+    // Empty arrays have no vector form; they count as no embedding
+    if (tables.has('entities')) {
+      await pg.exec(`
+        ALTER TABLE entities ALTER COLUMN embedding TYPE vector
+          USING CASE WHEN cardinality(embedding) > 0 THEN embedding::vector END;
+        UPDATE entities SET embedding_status = 'missing'
+          WHERE embedding IS NULL AND embedding_code IS NULL AND embedding_status <> 'missing';
+      `);
+    }
+    if (tables.has('entity_chunks')) {
+      await pg.exec(`
+        DELETE FROM entity_chunks WHERE cardinality(embedding) = 0 AND embedding_code IS NULL;
+        ALTER TABLE entity_chunks ALTER COLUMN embedding TYPE vector USING embedding::vector;
+      `);
+    }
+  }
 
-      -- Areas
-      CREATE TABLE IF NOT EXISTS areas (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
-        scope TEXT
-      );
+  /**
+   * Bring stored embeddings to the configured format: quantize float
+   * vectors, re-quantize codes of another type, or decode codes when
+   * quantization was turned off. Entities whose embedding gained no detail
+   * back from a coarser format are flagged stale, so the indexer re-embeds
+   * them. Runs in batches, so an interrupted conversion resumes.
+   */
+  private async convertEmbeddings(): Promise<void> {
+    const pg = this.getPGlite();
+    const target = this.quantization?.type ?? 'none';
+
+    const outdated = target === 'none'
+      ? 'embedding_code IS NOT NULL'
+      : `embedding IS NOT NULL OR NOT ${codeTypeSql('embedding_code', target)}`;
+
+    const convert = (row: { embedding: number[] | null; embedding_code: Uint8Array | null }) => {
+      const source = row.embedding_code ? getCodeType(row.embedding_code) : 'none';
+      const vector = row.embedding ?? dequantize(row.embedding_code!);
+      const stored = vector.length === 0 || target === 'none' ? null : quantize(vector, target);
+      return {
+        embedding: target === 'none' && vector.length > 0 ? vector : null,
+        code: stored,
+        coarser: PRECISION[source] < PRECISION[target],
+      };
+    };
 
-      -- Resources
-      CREATE TABLE IF NOT EXISTS resources (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        entity_id UUID NOT NULL REFERENCES entities(id) ON DELETE CASCADE,
-        source_url TEXT,
-        resource_type TEXT NOT NULL DEFAULT 'reference'
+    for (;;) {
+      const { rows } = await pg.query<{
+        id: string;
+        embedding: number[] | null;
+        embedding_code: Uint8Array | null;
+      }>(
+        `SELECT id, embedding::real[] AS embedding, embedding_code FROM entities
+          WHERE ${outdated} LIMIT ${CONVERSION_BATCH_SIZE}`
       );
+      if (rows.length === 0) break;
+
+      await pg.transaction(async (tx) => {
+        for (const row of rows) {
+          const { embedding, code, coarser } = convert(row);
+          await tx.query(
+            `UPDATE entities SET embedding = $2::real[], embedding_code = $3,
+              embedding_status = CASE
+                WHEN $2::real[] IS NULL AND $3::bytea IS NULL THEN 'missing'
+                WHEN $4 AND embedding_status = 'indexed' THEN 'stale'
+                ELSE embedding_status
+              END
+              WHERE id = $1`,
+            [row.id, embedding, code, coarser]
+          );
+        }
+      });
+    }
 
-      -- Sync log
-      CREATE TABLE IF NOT EXISTS sync_log (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        entity_id UUID NOT NULL,
-        operation TEXT NOT NULL,
-        payload JSONB,
-        timestamp TIMESTAMP NOT NULL DEFAULT NOW(),
-        client_id TEXT NOT NULL,
-        resolved TIMESTAMP
+    for (;;) {
+      const { rows } = await pg.query<{
+        entity_id: string;
+        chunk_index: number;
+        embedding: number[] | null;
+        embedding_code: Uint8Array | null;
+      }>(
+        `SELECT entity_id, chunk_index, embedding::real[] AS embedding, embedding_code
+          FROM entity_chunks WHERE ${outdated} LIMIT ${CONVERSION_BATCH_SIZE}`
       );
-    `);
+      if (rows.length === 0) break;
+
+      await pg.transaction(async (tx) => {
+        for (const row of rows) {
+          const { embedding, code } = convert(row);
+          await tx.query(
+            `UPDATE entity_chunks SET embedding = $3::real[], embedding_code = $4
+              WHERE entity_id = $1 AND chunk_index = $2`,
+            [row.entity_id, row.chunk_index, embedding, code]
+          );
+        }
+      });
+    }
   }
 }
 
@@ -0,0 +1,242 @@
+// =============================================================================
+// Sync Encryption - End-to-end encryption of entities pushed to the server
+// =============================================================================
+
+import type { Entity, EncryptedEnvelope, SyncEntity } from '@unimem/types';
+
+// -----------------------------------------------------------------------------
+// Constants
+// -----------------------------------------------------------------------------
+
+export const ENVELOPE_VERSION = 1;
+
+const DEFAULT_KEY_ID = 'default';
+const DEFAULT_ITERATIONS = 310_000;
+const IV_LENGTH = 12;
+const SALT_LENGTH = 16;
+
+// Left in clear text: what the server needs to route, scope and order
+// changes. Tags are among them, since selective sync filters by tag, so the
+// server can read every entity's tags.
+const ROUTING_FIELDS = new Set([
+  'id', 'type', 'memoryLayer', 'tags', 'createdAt', 'updatedAt', 'syncVersion',
+]);
+
+export interface PassphraseKeyOptions {
+  /**
+   * PBKDF2 salt for new payloads, e.g. one kept from getSalt(). Defaults to
+   * a random one. Envelopes carry their salt, so any device holding the
+   * passphrase decrypts them whatever salt it encrypts with.
+   */
+  salt?: string;
+  iterations?: number;
+}
+
+// -----------------------------------------------------------------------------
+// Keyring
+// -----------------------------------------------------------------------------
+
+interface PassphraseKey {
+  material: CryptoKey; // the passphrase, imported for PBKDF2
+  salt: string;
+  iterations: number;
+}
+
+/**
+ * AES-GCM keys derived from passphrases. The current key encrypts; every key
+ * in the ring can decrypt, so older payloads stay readable after rotation.
+ * Only entity fields the server needs stay in clear text: ID, type, memory
+ * layer, tags, timestamps and sync version.
+ */
+export class SyncKeyring {
+  private passphrases = new Map<string, PassphraseKey>();
+  private derivedKeys = new Map<string, Promise<CryptoKey>>(); // by key ID and salt
+  private currentKeyId: string | null = null;
+
+  /**
+   * Derive a key from a passphrase and add it to the ring. The first key
+   * added becomes the current one.
+   */
+  async addPassphrase(
+    keyId: string,
+    passphrase: string,
+    options: PassphraseKeyOptions = {}
+  ): Promise<void> {
+    if (!passphrase) {
+      throw new Error('Encryption passphrase is required');
+    }
+
+    const material = await crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    const salt = options.salt ?? toBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+    this.passphrases.set(keyId, {
+      material,
+      salt,
+      iterations: options.iterations ?? DEFAULT_ITERATIONS,
+    });
+    // Keys derived from a previous passphrase under this ID are stale
+    for (const cacheKey of [...this.derivedKeys.keys()]) {
+      if (cacheKey.startsWith(`${keyId}:`)) this.derivedKeys.delete(cacheKey);
+    }
+
+    await this.getKey(keyId, salt);
+    this.currentKeyId ??= keyId;
+  }
+
+  /**
+   * Salt a key encrypts with, to keep and pass back to addPassphrase so
+   * the device does not derive a new one each session
+   */
+  getSalt(keyId: string): string | null {
+    return this.passphrases.get(keyId)?.salt ?? null;
+  }
+
+  /**
+   * Encrypt new payloads with another key from the ring
+   */
+  useKey(keyId: string): void {
+    if (!this.passphrases.has(keyId)) {
+      throw new Error(`Unknown encryption key: ${keyId}`);
+    }
+    this.currentKeyId = keyId;
+  }
+
+  getCurrentKeyId(): string | null {
+    return this.currentKeyId;
+  }
+
+  async encryptEntity(entity: Entity): Promise<SyncEntity> {
+    if (!this.currentKeyId) {
+      throw new Error('No encryption key configured');
+    }
+
+    const routing: Record<string, unknown> = {};
+    const secret: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(entity)) {
+      (ROUTING_FIELDS.has(field) ? routing : secret)[field] = value;
+    }
+
+    const { salt } = this.passphrases.get(this.currentKeyId)!;
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      // Binding the entity ID stops ciphertexts being swapped between entities
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(entity.id) },
+      await this.getKey(this.currentKeyId, salt),
+      new TextEncoder().encode(JSON.stringify(secret))
+    );
+
+    const envelope: EncryptedEnvelope = {
+      version: ENVELOPE_VERSION,
+      keyId: this.currentKeyId,
+      salt,
+      iv: toBase64(iv),
+      data: toBase64(new Uint8Array(ciphertext)),
+    };
+
+    return {
+      ...routing,
+      title: '',
+      content: '',
+      links: [],
+      envelope,
+    } as unknown as SyncEntity;
+  }
+
+  /**
+   * Restore the private fields of an entity. Entities pushed before
+   * encryption was enabled are returned unchanged.
+   */
+  async decryptEntity(entity: SyncEntity): Promise<Entity> {
+    const { envelope, ...routing } = entity;
+    if (!envelope) return routing as Entity;
+
+    if (envelope.version !== ENVELOPE_VERSION) {
+      throw new Error(`Unsupported envelope version: ${envelope.version}`);
+    }
+
+    const key = await this.getKey(envelope.keyId, envelope.salt);
+
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: fromBase64(envelope.iv),
+        additionalData: new TextEncoder().encode(entity.id),
+      },
+      key,
+      fromBase64(envelope.data)
+    );
+
+    const secret = JSON.parse(new TextDecoder().decode(plaintext));
+    return { ...routing, ...secret } as Entity;
+  }
+
+  /**
+   * The key derived from a passphrase with a salt, once per salt
+   */
+  private getKey(keyId: string, salt: string): Promise<CryptoKey> {
+    const passphrase = this.passphrases.get(keyId);
+    if (!passphrase) {
+      return Promise.reject(new Error(`Unknown encryption key: ${keyId}`));
+    }
+
+    const cacheKey = `${keyId}:${salt}`;
+    let key = this.derivedKeys.get(cacheKey);
+    if (!key) {
+      key = crypto.subtle.deriveKey(
+        {
+          name: 'PBKDF2',
+          hash: 'SHA-256',
+          salt: new TextEncoder().encode(salt),
+          iterations: passphrase.iterations,
+        },
+        passphrase.material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+      );
+      this.derivedKeys.set(cacheKey, key);
+    }
+    return key;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): ArrayBuffer {
+  const binary = atob(value);
+  const buffer = new ArrayBuffer(binary.length);
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return buffer;
+}
+
+// -----------------------------------------------------------------------------
+// Factory Function
+// -----------------------------------------------------------------------------
+
+export async function createSyncKeyring(
+  passphrase: string,
+  options: PassphraseKeyOptions & { keyId?: string } = {}
+): Promise<SyncKeyring> {
+  const keyring = new SyncKeyring();
+  await keyring.addPassphrase(options.keyId ?? DEFAULT_KEY_ID, passphrase, options);
+  return keyring;
+}
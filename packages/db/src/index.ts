@@ -3,6 +3,11 @@
 // =============================================================================
 
 export * from './schema';
+export * from './schema-sql';
+export * from './migrations';
 export * from './client';
 export * from './storage-adapter';
 export * from './sync';
+export * from './vector-index-store';
+export * from './quantization';
+export * from './encryption';
@@ -0,0 +1,241 @@
+// =============================================================================
+// Schema Migrations - Versioned schema changes applied on initialize()
+// =============================================================================
+
+import { is } from 'drizzle-orm';
+import { PgTable, getTableConfig } from 'drizzle-orm/pg-core';
+import type { PGlite, Transaction } from '@electric-sql/pglite';
+import * as schema from './schema';
+import { createTableSql, createIndexesSql, addColumnSql } from './schema-sql';
+
+// -----------------------------------------------------------------------------
+// Migration Types
+// -----------------------------------------------------------------------------
+
+/**
+ * A schema change, applied once per database in its own transaction.
+ *
+ * New databases are created straight from schema.ts and record every
+ * migration as applied, so migrations only ever upgrade existing databases.
+ * A change to schema.ts therefore needs a migration bringing existing
+ * databases to the same layout, or initialize() fails the schema check.
+ *
+ * How embeddings are stored (pgvector or REAL[], quantized or not) is not a
+ * migration: it follows DatabaseConfig, and DatabaseClient converts to it
+ * after migrating, on every open.
+ */
+export interface Migration {
+  version: number; // ascending, never reused
+  name: string;
+  up(tx: Transaction): Promise<void>;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt: Date | null; // null while pending
+}
+
+// -----------------------------------------------------------------------------
+// Migrations
+// -----------------------------------------------------------------------------
+
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    // Databases created before versioned migrations, at any earlier layout:
+    // create the tables they lack and add the columns added since
+    async up(tx) {
+      const tables = [
+        schema.entities,
+        schema.entityChunks,
+        schema.dailyNotes,
+        schema.people,
+        schema.companies,
+        schema.projects,
+        schema.tasks,
+        schema.areas,
+        schema.resources,
+        schema.syncLog,
+        schema.tombstones,
+        schema.syncMeta,
+        schema.vectorIndexes,
+      ];
+      for (const table of tables) await tx.exec(createTableSql(table));
+
+      await tx.exec(`
+        ${addColumnSql(schema.entities.baseVersion)}
+
+        -- Embeddings stored before status tracking match their content
+        ALTER TABLE entities ADD COLUMN IF NOT EXISTS embedding_status TEXT;
+        UPDATE entities
+          SET embedding_status = CASE WHEN embedding IS NULL THEN 'missing' ELSE 'indexed' END
+          WHERE embedding_status IS NULL;
+        ALTER TABLE entities ALTER COLUMN embedding_status SET DEFAULT 'missing';
+        ALTER TABLE entities ALTER COLUMN embedding_status SET NOT NULL;
+
+        -- Untagged embeddings are re-embedded once the indexer starts
+        ${addColumnSql(schema.entities.embeddingModel)}
+        ${addColumnSql(schema.entities.embeddingDimensions)}
+
+        -- Quantized embeddings keep only their code
+        ${addColumnSql(schema.entities.embeddingCode)}
+        ${addColumnSql(schema.entityChunks.embeddingCode)}
+        ALTER TABLE entity_chunks ALTER COLUMN embedding DROP NOT NULL;
+      `);
+
+      for (const table of tables) await tx.exec(createIndexesSql(table).join('\n'));
+    },
+  },
+];
+
+// -----------------------------------------------------------------------------
+// Runner
+// -----------------------------------------------------------------------------
+
+/**
+ * Bring the database to the latest schema version. Each migration commits
+ * with its schema_migrations row; a failing one rolls back and stops the
+ * run, leaving the database at the previous version.
+ */
+export async function runMigrations(pg: PGlite, list: Migration[] = migrations): Promise<void> {
+  const ordered = [...list].sort((a, b) => a.version - b.version);
+  const latest = ordered.at(-1)?.version ?? 0;
+
+  await pg.exec(createTableSql(schema.schemaMigrations));
+  const applied = await getAppliedVersions(pg);
+
+  const unknown = [...applied.keys()].filter((version) => version > latest);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Database schema version ${Math.max(...unknown)} is newer than this build supports (${latest})`
+    );
+  }
+
+  if (applied.size === 0 && !(await hasTable(pg, 'entities'))) {
+    await createSchema(pg, ordered);
+    return;
+  }
+
+  for (const migration of ordered) {
+    if (applied.has(migration.version)) continue;
+
+    try {
+      await pg.transaction(async (tx) => {
+        await migration.up(tx);
+        await tx.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+          migration.version,
+          migration.name,
+        ]);
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+    }
+  }
+
+  await verifySchema(pg);
+}
+
+/**
+ * Every known migration, with when it was applied to this database
+ */
+export async function getMigrationStatus(
+  pg: PGlite,
+  list: Migration[] = migrations
+): Promise<MigrationStatus[]> {
+  const applied = await getAppliedVersions(pg);
+
+  return [...list]
+    .sort((a, b) => a.version - b.version)
+    .map(({ version, name }) => ({ version, name, appliedAt: applied.get(version) ?? null }));
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+/**
+ * Create every table in schema.ts at once, as a database already at the
+ * latest version
+ */
+async function createSchema(pg: PGlite, ordered: Migration[]): Promise<void> {
+  await pg.transaction(async (tx) => {
+    for (const table of getSchemaTables()) {
+      await tx.exec([createTableSql(table), ...createIndexesSql(table)].join('\n'));
+    }
+
+    for (const { version, name } of ordered) {
+      await tx.query('INSERT INTO schema_migrations (version, name) VALUES ($1, $2)', [
+        version,
+        name,
+      ]);
+    }
+  });
+}
+
+/**
+ * Fail when a table or column of schema.ts is missing from the migrated
+ * database, i.e. a schema change shipped without its migration
+ */
+async function verifySchema(pg: PGlite): Promise<void> {
+  const { rows } = await pg.query<{ table_name: string; column_name: string }>(
+    `SELECT table_name, column_name FROM information_schema.columns
+      WHERE table_schema = current_schema()`
+  );
+  const existing = new Set(rows.map((row) => `${row.table_name}.${row.column_name}`));
+
+  const missing = getSchemaTables().flatMap((table) => {
+    const config = getTableConfig(table);
+    return config.columns
+      .map((column) => `${config.name}.${column.name}`)
+      .filter((column) => !existing.has(column));
+  });
+
+  if (missing.length > 0) {
+    throw new Error(`Database schema is missing ${missing.join(', ')}; add a migration`);
+  }
+}
+
+/**
+ * Tables of schema.ts, referenced tables first
+ */
+function getSchemaTables(): PgTable[] {
+  const tables = Object.values(schema as Record<string, unknown>).filter(
+    (value): value is PgTable => is(value, PgTable)
+  );
+  const ordered: PgTable[] = [];
+
+  const visit = (table: PgTable) => {
+    if (ordered.includes(table)) return;
+    for (const foreignKey of getTableConfig(table).foreignKeys) {
+      const target = foreignKey.reference().foreignTable;
+      if (target !== table) visit(target);
+    }
+    ordered.push(table);
+  };
+  tables.forEach(visit);
+
+  return ordered;
+}
+
+async function getAppliedVersions(pg: PGlite): Promise<Map<number, Date>> {
+  if (!(await hasTable(pg, 'schema_migrations'))) return new Map();
+
+  const { rows } = await pg.query<{ version: number; applied_at: Date }>(
+    'SELECT version, applied_at FROM schema_migrations'
+  );
+  return new Map(rows.map((row) => [row.version, row.applied_at]));
+}
+
+async function hasTable(pg: PGlite, name: string): Promise<boolean> {
+  const { rows } = await pg.query<{ exists: boolean }>(
+    `SELECT EXISTS (
+      SELECT 1 FROM information_schema.tables
+      WHERE table_schema = current_schema() AND table_name = $1
+    ) AS exists`,
+    [name]
+  );
+  return rows[0]?.exists ?? false;
+}
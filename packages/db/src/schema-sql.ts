@@ -0,0 +1,98 @@
+// =============================================================================
+// Schema SQL - DDL generated from the Drizzle tables in schema.ts
+// =============================================================================
+
+import { is, SQL, getTableName } from 'drizzle-orm';
+import { PgDialect, getTableConfig, type PgColumn, type PgTable } from 'drizzle-orm/pg-core';
+
+// Migrations create tables and columns through these helpers, so the
+// database and schema.ts cannot describe the same column differently
+
+const dialect = new PgDialect();
+
+/**
+ * CREATE TABLE for a table as declared, with its keys and foreign keys.
+ * Idempotent (IF NOT EXISTS), like every generated statement. Indexes come
+ * from createIndexesSql, once the table has all its columns.
+ */
+export function createTableSql(table: PgTable): string {
+  const config = getTableConfig(table);
+  const names = (columns: PgColumn[]) => columns.map((column) => column.name).join(', ');
+
+  const definitions = config.columns.map(columnSql);
+  for (const primaryKey of config.primaryKeys) {
+    definitions.push(`PRIMARY KEY (${names(primaryKey.columns)})`);
+  }
+  for (const unique of config.uniqueConstraints) {
+    definitions.push(`UNIQUE (${names(unique.columns)})`);
+  }
+  for (const foreignKey of config.foreignKeys) {
+    const reference = foreignKey.reference();
+    definitions.push(
+      `FOREIGN KEY (${names(reference.columns)}) ` +
+      `REFERENCES ${getTableName(reference.foreignTable)}(${names(reference.foreignColumns)})` +
+      (foreignKey.onDelete ? ` ON DELETE ${foreignKey.onDelete.toUpperCase()}` : '')
+    );
+  }
+
+  return `CREATE TABLE IF NOT EXISTS ${config.name} (\n  ${definitions.join(',\n  ')}\n);`;
+}
+
+/**
+ * CREATE INDEX for each index declared on a table, one statement each
+ */
+export function createIndexesSql(table: PgTable): string[] {
+  const config = getTableConfig(table);
+
+  return config.indexes.map(({ config: index }) => {
+    const columns = index.columns.map((column) => {
+      if (!('name' in column) || !column.name) {
+        throw new Error(`Index ${index.name} on ${config.name}: only plain columns are supported`);
+      }
+      return column.name;
+    });
+    const unique = index.unique ? 'UNIQUE ' : '';
+    return `CREATE ${unique}INDEX IF NOT EXISTS ${index.name} ON ${config.name}(${columns.join(', ')});`;
+  });
+}
+
+/**
+ * ALTER TABLE adding a column as declared. A NOT NULL column needs a
+ * default to be added to a table with rows.
+ */
+export function addColumnSql(column: PgColumn): string {
+  return `ALTER TABLE ${getTableName(column.table)} ADD COLUMN IF NOT EXISTS ${columnSql(column)};`;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function columnSql(column: PgColumn): string {
+  const parts = [column.name, column.getSQLType().toUpperCase()];
+
+  if (column.primary) parts.push('PRIMARY KEY');
+  if (column.notNull && !column.primary) parts.push('NOT NULL');
+  if (column.isUnique) parts.push('UNIQUE');
+  if (column.default !== undefined) parts.push(`DEFAULT ${defaultSql(column)}`);
+
+  return parts.join(' ');
+}
+
+function defaultSql(column: PgColumn): string {
+  const value = column.default;
+
+  if (is(value, SQL)) {
+    const query = dialect.sqlToQuery(value);
+    if (query.params.length > 0) {
+      throw new Error(`Default of ${column.name} must not have parameters`);
+    }
+    return query.sql;
+  }
+
+  // The driver form is what an insert would store, e.g. '[]' for jsonb
+  const driverValue = column.mapToDriverValue(value);
+  return typeof driverValue === 'number' || typeof driverValue === 'boolean'
+    ? String(driverValue)
+    : `'${String(driverValue).replace(/'/g, "''")}'`;
+}
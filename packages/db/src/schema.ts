@@ -7,20 +7,45 @@ import {
   text,
   timestamp,
   jsonb,
-  real,
   index,
   uuid,
+  integer,
+  primaryKey,
+  customType,
 } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 
 // -----------------------------------------------------------------------------
 // Custom pgvector type
 // -----------------------------------------------------------------------------
 
-// Note: pgvector extension must be enabled in the database
-// CREATE EXTENSION IF NOT EXISTS vector;
+/**
+ * Embedding column. Created as REAL[]; when pgvector loads, DatabaseClient
+ * migrates it to `vector` and indexes it with HNSW. Values are written as a
+ * typed REAL[], which both accept (pgvector casts arrays on assignment), and
+ * read back from either an array or pgvector's '[1,2,3]' text form.
+ */
+export const embeddingVector = customType<{ data: number[]; driverData: number[] | string }>({
+  dataType() {
+    return 'real[]';
+  },
+  toDriver(value) {
+    return sql`${sql.param(value)}::real[]`;
+  },
+  fromDriver(value) {
+    return typeof value === 'string' ? (JSON.parse(value) as number[]) : value;
+  },
+});
 
-// For now, we store embeddings as real[] until drizzle adds native vector support
-// In production, you'd use: vector('embedding', { dimensions: 1536 })
+/**
+ * Quantized embedding (see quantization.ts), stored in place of the float
+ * vector when DatabaseConfig.quantization is set
+ */
+export const embeddingCode = customType<{ data: Uint8Array }>({
+  dataType() {
+    return 'bytea';
+  },
+});
 
 // -----------------------------------------------------------------------------
 // Entities Table
@@ -36,9 +61,11 @@ export const entities = pgTable(
     title: text('title').notNull(),
     content: text('content').notNull(),
 
-    // Vector embedding stored as array of floats
-    // TODO: Replace with vector type when using actual pgvector
-    embedding: real('embedding').array(),
+    embedding: embeddingVector('embedding'),
+    embeddingCode: embeddingCode('embedding_code'),
+    embeddingStatus: text('embedding_status').notNull().default('missing'), // EmbeddingStatus, local only
+    embeddingModel: text('embedding_model'), // model the embedding came from (null when unknown)
+    embeddingDimensions: integer('embedding_dimensions'),
 
     // Flexible metadata storage
     metadata: jsonb('metadata').$type<Record<string, unknown>>(),
@@ -63,18 +90,37 @@ export const entities = pgTable(
 
     // Sync metadata (for ElectricSQL)
     syncStatus: text('sync_status').default('synced'),
-    syncVersion: text('sync_version'),
+    syncVersion: text('sync_version'), // HLC of the last mutation
+    baseVersion: text('base_version'), // HLC last exchanged with the server
   },
   (table) => [
     index('idx_entities_type').on(table.type),
     index('idx_entities_memory_layer').on(table.memoryLayer),
     index('idx_entities_created_at').on(table.createdAt),
     index('idx_entities_updated_at').on(table.updatedAt),
-    // Note: Vector similarity index would be:
-    // CREATE INDEX ON entities USING ivfflat (embedding vector_cosine_ops) WITH (lists = 100);
+    index('idx_entities_embedding_status').on(table.embeddingStatus),
+    // HNSW indexes are created per dimension by DatabaseClient.ensureVectorIndex
   ]
 );
 
+// -----------------------------------------------------------------------------
+// Entity Chunks (embedded passages of long content)
+// -----------------------------------------------------------------------------
+
+export const entityChunks = pgTable(
+  'entity_chunks',
+  {
+    entityId: uuid('entity_id')
+      .notNull()
+      .references(() => entities.id, { onDelete: 'cascade' }),
+    chunkIndex: integer('chunk_index').notNull(), // position within the entity
+    text: text('text').notNull(),
+    embedding: embeddingVector('embedding'), // either this or embeddingCode is set
+    embeddingCode: embeddingCode('embedding_code'),
+  },
+  (table) => [primaryKey({ columns: [table.entityId, table.chunkIndex] })]
+);
+
 // -----------------------------------------------------------------------------
 // Daily Notes Table (Working Memory)
 // -----------------------------------------------------------------------------
@@ -184,11 +230,52 @@ export const resources = pgTable('resources', {
 export const syncLog = pgTable('sync_log', {
   id: uuid('id').primaryKey().defaultRandom(),
   entityId: uuid('entity_id').notNull(),
-  operation: text('operation').notNull(), // 'create' | 'update' | 'delete'
+  operation: text('operation').notNull(), // 'create' | 'update' | 'delete' | 'conflict'
   payload: jsonb('payload'),
   timestamp: timestamp('timestamp').notNull().defaultNow(),
   clientId: text('client_id').notNull(),
-  resolved: timestamp('resolved'),
+  resolved: timestamp('resolved'), // acknowledged by the server, or conflict resolved
+});
+
+// -----------------------------------------------------------------------------
+// Tombstones (local deletes waiting to reach the sync server)
+// -----------------------------------------------------------------------------
+
+export const tombstones = pgTable('tombstones', {
+  entityId: uuid('entity_id').primaryKey(),
+  entityType: text('entity_type').notNull(), // EntityType
+  syncVersion: text('sync_version'), // HLC of the delete
+  deletedAt: timestamp('deleted_at').notNull().defaultNow(),
+});
+
+// -----------------------------------------------------------------------------
+// Sync Metadata (key/value state kept by the SyncManager)
+// -----------------------------------------------------------------------------
+
+export const syncMeta = pgTable('sync_meta', {
+  key: text('key').primaryKey(), // e.g. 'last_sync_version'
+  value: text('value').notNull(),
+});
+
+// -----------------------------------------------------------------------------
+// Vector Index Snapshots (serialized in-process search indexes and the
+// lexical weights they are built from)
+// -----------------------------------------------------------------------------
+
+export const vectorIndexes = pgTable('vector_indexes', {
+  name: text('name').primaryKey(),
+  data: text('data').notNull(), // JSON snapshot
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+});
+
+// -----------------------------------------------------------------------------
+// Schema Migrations (versions applied by DatabaseClient.initialize)
+// -----------------------------------------------------------------------------
+
+export const schemaMigrations = pgTable('schema_migrations', {
+  version: integer('version').primaryKey(),
+  name: text('name').notNull(),
+  appliedAt: timestamp('applied_at').notNull().defaultNow(),
 });
 
 // -----------------------------------------------------------------------------
@@ -197,6 +284,8 @@ export const syncLog = pgTable('sync_log', {
 
 export type EntityRow = typeof entities.$inferSelect;
 export type NewEntityRow = typeof entities.$inferInsert;
+export type EntityChunkRow = typeof entityChunks.$inferSelect;
+export type TombstoneRow = typeof tombstones.$inferSelect;
 export type DailyNoteRow = typeof dailyNotes.$inferSelect;
 export type PersonRow = typeof people.$inferSelect;
 export type CompanyRow = typeof companies.$inferSelect;
@@ -2,9 +2,25 @@
 // PGlite Storage Adapter - Implements StorageAdapter from @unimem/core
 // =============================================================================
 
-import { eq, and, inArray, gte, lte, sql } from 'drizzle-orm';
+import {
+  eq,
+  and,
+  inArray,
+  gte,
+  lte,
+  isNull,
+  isNotNull,
+  or,
+  asc,
+  sql,
+  getTableColumns,
+  type SQL,
+} from 'drizzle-orm';
 import type {
   Entity,
+  EntityChunk,
+  EmbeddingModel,
+  EmbeddingStatus,
   EntityType,
   MemoryLayerType,
   EntityFilter,
@@ -12,20 +28,141 @@ import type {
   SearchResponse,
   SearchResult,
   MemoryStats,
+  EmbeddingStorageStats,
 } from '@unimem/types';
+import type { PgUpdateSetSource } from 'drizzle-orm/pg-core';
 import type { StorageAdapter } from '@unimem/core';
 import type { DatabaseClient } from './client';
-import { entities, type EntityRow, type NewEntityRow } from './schema';
+import {
+  quantize,
+  dequantize,
+  codeDimensionsSql,
+  codeFromHex,
+  QuantizedScorer,
+  type QuantizationType,
+} from './quantization';
+import {
+  entities,
+  entityChunks,
+  syncLog,
+  tombstones,
+  type EntityRow,
+  type NewEntityRow,
+} from './schema';
+
+// -----------------------------------------------------------------------------
+// Row Mapping
+// -----------------------------------------------------------------------------
+
+const BASE_FIELDS = new Set([
+  'id', 'type', 'memoryLayer', 'title', 'content',
+  'embedding', 'links', 'tags', 'createdAt', 'updatedAt', 'syncVersion',
+]);
+
+/**
+ * Columns storing an embedding: the vector itself, or its code when the
+ * database quantizes embeddings
+ */
+export function encodeEmbedding(
+  embedding: number[] | undefined,
+  quantization: QuantizationType | undefined
+): Pick<NewEntityRow, 'embedding' | 'embeddingCode'> {
+  if (!embedding?.length) return { embedding: null, embeddingCode: null };
+
+  return quantization
+    ? { embedding: null, embeddingCode: quantize(embedding, quantization) }
+    : { embedding, embeddingCode: null };
+}
+
+export function entityToRow(entity: Entity, quantization?: QuantizationType): NewEntityRow {
+  return {
+    id: entity.id,
+    type: entity.type,
+    memoryLayer: entity.memoryLayer,
+    title: entity.title,
+    content: entity.content,
+    ...encodeEmbedding(entity.embedding, quantization),
+    metadata: extractMetadata(entity),
+    links: entity.links,
+    tags: entity.tags,
+    createdAt: entity.createdAt,
+    updatedAt: entity.updatedAt,
+    syncVersion: entity.syncVersion ?? null,
+  };
+}
+
+export function rowToEntity<T extends Entity>(row: EntityRow): T {
+  const base = {
+    id: row.id,
+    type: row.type as EntityType,
+    memoryLayer: row.memoryLayer as MemoryLayerType,
+    title: row.title,
+    content: row.content,
+    embedding: row.embedding ?? (row.embeddingCode ? dequantize(row.embeddingCode) : undefined),
+    links: (row.links as Entity['links']) ?? [],
+    tags: row.tags ?? [],
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    syncVersion: row.syncVersion ?? undefined,
+  } as Entity;
+
+  // Merge in type-specific metadata
+  const metadata = row.metadata as Record<string, unknown> | null;
+  if (metadata) {
+    Object.assign(base, metadata);
+  }
+
+  return base as T;
+}
+
+/**
+ * Status of an entity's embedding as written: `current` when the embedding
+ * was computed for this content
+ */
+export function getEmbeddingStatus(entity: Entity, current: boolean): EmbeddingStatus {
+  if (!entity.embedding?.length) return 'missing';
+  return current ? 'indexed' : 'stale';
+}
+
+function extractMetadata(entity: Partial<Entity>): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+
+  // Extract type-specific fields
+  for (const [key, value] of Object.entries(entity)) {
+    if (!BASE_FIELDS.has(key) && value !== undefined) {
+      metadata[key] = value;
+    }
+  }
+
+  return metadata;
+}
 
 // -----------------------------------------------------------------------------
 // PGlite Storage Adapter
 // -----------------------------------------------------------------------------
 
+export interface PGliteStorageAdapterOptions {
+  /**
+   * Client ID recorded with every change written to sync_log
+   */
+  clientId?: string;
+}
+
+export type ChangeOperation = 'create' | 'update' | 'delete';
+
+type Executor = Pick<ReturnType<DatabaseClient['getDb']>, 'insert'>;
+
+// Chunks fetched per requested result: several chunks of one entity can
+// crowd the nearest ones
+const CHUNK_OVERFETCH = 4;
+
 export class PGliteStorageAdapter implements StorageAdapter {
   private client: DatabaseClient;
+  private clientId: string;
 
-  constructor(client: DatabaseClient) {
+  constructor(client: DatabaseClient, options: PGliteStorageAdapterOptions = {}) {
     this.client = client;
+    this.clientId = options.clientId ?? 'local';
   }
 
   // ---------------------------------------------------------------------------
@@ -35,21 +172,16 @@ export class PGliteStorageAdapter implements StorageAdapter {
   async create<T extends Entity>(entity: T): Promise<T> {
     const db = this.client.getDb();
 
-    const row: NewEntityRow = {
-      id: entity.id,
-      type: entity.type,
-      memoryLayer: entity.memoryLayer,
-      title: entity.title,
-      content: entity.content,
-      embedding: entity.embedding ?? null,
-      metadata: this.extractMetadata(entity),
-      links: entity.links,
-      tags: entity.tags,
-      createdAt: entity.createdAt,
-      updatedAt: entity.updatedAt,
-    };
+    const row = entityToRow(entity, this.getQuantizationType());
 
-    await db.insert(entities).values(row);
+    await db.transaction(async (tx) => {
+      await tx.insert(entities).values({
+        ...row,
+        embeddingStatus: getEmbeddingStatus(entity, true),
+        syncStatus: 'pending',
+      });
+      await this.logChange(tx, entity.id, 'create', entity);
+    });
 
     return entity;
   }
@@ -65,36 +197,61 @@ export class PGliteStorageAdapter implements StorageAdapter {
 
     if (rows.length === 0) return null;
 
-    return this.rowToEntity<T>(rows[0]);
+    return rowToEntity<T>(rows[0]);
   }
 
   async update<T extends Entity>(id: string, updates: Partial<T>): Promise<T> {
     const db = this.client.getDb();
 
-    const updateData: Partial<NewEntityRow> = {
+    const updateData: PgUpdateSetSource<typeof entities> = {
       updatedAt: new Date(),
+      syncStatus: 'pending',
     };
 
     if (updates.title !== undefined) updateData.title = updates.title;
     if (updates.content !== undefined) updateData.content = updates.content;
-    if (updates.embedding !== undefined) updateData.embedding = updates.embedding;
+    if (updates.embedding !== undefined) {
+      // Written directly, the model is unknown; see flagOutdatedEmbeddings
+      Object.assign(updateData, encodeEmbedding(updates.embedding, this.getQuantizationType()));
+      updateData.embeddingStatus = 'indexed';
+      updateData.embeddingModel = null;
+      updateData.embeddingDimensions = null;
+    } else if (updates.title !== undefined || updates.content !== undefined) {
+      // Changed text outdates the embedding (chunks are replaced on re-index)
+      updateData.embeddingStatus = sql`CASE
+        WHEN ${entities.embedding} IS NULL AND ${entities.embeddingCode} IS NULL THEN 'missing'
+        ELSE 'stale'
+      END`;
+    }
     if (updates.memoryLayer !== undefined) updateData.memoryLayer = updates.memoryLayer;
     if (updates.links !== undefined) updateData.links = updates.links;
     if (updates.tags !== undefined) updateData.tags = updates.tags;
+    if (updates.syncVersion !== undefined) updateData.syncVersion = updates.syncVersion;
 
     // Handle metadata updates
     if (this.hasMetadataFields(updates)) {
       const existing = await this.read<T>(id);
       if (existing) {
-        const currentMetadata = this.extractMetadata(existing);
-        const newMetadata = this.extractMetadata(updates as Partial<Entity>);
+        const currentMetadata = extractMetadata(existing);
+        const newMetadata = extractMetadata(updates as Partial<Entity>);
         updateData.metadata = { ...currentMetadata, ...newMetadata };
       }
     }
 
-    await db.update(entities).set(updateData).where(eq(entities.id, id));
+    const updated = await db.transaction(async (tx) => {
+      const rows = await tx
+        .update(entities)
+        .set(updateData)
+        .where(eq(entities.id, id))
+        .returning();
+
+      if (rows.length === 0) return null;
+
+      const entity = rowToEntity<T>(rows[0]);
+      await this.logChange(tx, id, 'update', entity);
+      return entity;
+    });
 
-    const updated = await this.read<T>(id);
     if (!updated) {
       throw new Error(`Entity not found after update: ${id}`);
     }
@@ -102,9 +259,8 @@ export class PGliteStorageAdapter implements StorageAdapter {
     return updated;
   }
 
-  async delete(id: string): Promise<void> {
-    const db = this.client.getDb();
-    await db.delete(entities).where(eq(entities.id, id));
+  async delete(id: string, syncVersion?: string): Promise<void> {
+    await this.bulkDelete([id], syncVersion);
   }
 
   // ---------------------------------------------------------------------------
@@ -114,57 +270,198 @@ export class PGliteStorageAdapter implements StorageAdapter {
   async query<T extends Entity>(filter: EntityFilter): Promise<T[]> {
     const db = this.client.getDb();
 
-    const conditions = [];
+    const conditions = this.buildConditions(filter);
 
-    if (filter.types && filter.types.length > 0) {
-      conditions.push(inArray(entities.type, filter.types));
-    }
+    const query = conditions.length > 0
+      ? db.select().from(entities).where(and(...conditions))
+      : db.select().from(entities);
 
-    if (filter.memoryLayers && filter.memoryLayers.length > 0) {
-      conditions.push(inArray(entities.memoryLayer, filter.memoryLayers));
-    }
+    const rows = await query;
+    return rows.map((row) => rowToEntity<T>(row));
+  }
 
-    if (filter.dateRange?.start) {
-      conditions.push(gte(entities.createdAt, filter.dateRange.start));
-    }
+  /**
+   * Rank entities by their own embedding and by their best-matching chunk,
+   * whichever scores higher. The matching chunk is returned as a highlight.
+   * Only embeddings from the query's model are compared; the others are
+   * counted as skipped.
+   */
+  async search<T extends Entity>(query: VectorQuery): Promise<SearchResponse<T>> {
+    if (this.client.getQuantization()) return this.searchQuantized<T>(query);
 
-    if (filter.dateRange?.end) {
-      conditions.push(lte(entities.createdAt, filter.dateRange.end));
-    }
+    return this.client.hasVectorSupport()
+      ? this.searchIndexed<T>(query)
+      : this.searchScan<T>(query);
+  }
 
-    // Note: Tag filtering requires array overlap operation
-    // This is a simplified implementation
-    if (filter.tags && filter.tags.length > 0) {
-      // For each tag, check if it's in the array
-      // In production, use: entities.tags && filter.tags (array overlap)
-      for (const tag of filter.tags) {
-        conditions.push(sql`${tag} = ANY(${entities.tags})`);
-      }
+  /**
+   * Nearest neighbours by pgvector's cosine distance, with the filter applied
+   * in SQL. Iterative index scans keep a selective filter from starving the
+   * results.
+   */
+  private async searchIndexed<T extends Entity>(query: VectorQuery): Promise<SearchResponse<T>> {
+    const startTime = Date.now();
+    const db = this.client.getDb();
+    const limit = query.limit ?? 10;
+    const threshold = query.threshold ?? 0;
+
+    const dimensions = query.embedding.length;
+    if (dimensions === 0) {
+      return { results: [], total: 0, query: '', took: Date.now() - startTime, skipped: 0 };
     }
 
-    const query = conditions.length > 0
-      ? db.select().from(entities).where(and(...conditions))
-      : db.select().from(entities);
+    // Written like the index expressions, so the planner can use them
+    const size = sql.raw(String(dimensions));
+    const target = sql`${JSON.stringify(query.embedding)}::vector(${size})`;
+    const distanceTo = (column: typeof entities.embedding | typeof entityChunks.embedding) =>
+      sql<number>`${column}::vector(${size}) <=> ${target}`;
+    const hasSize = (column: typeof entities.embedding | typeof entityChunks.embedding) =>
+      sql`vector_dims(${column}) = ${size}`;
+
+    const filter = this.buildConditions(query.filter ?? {});
+    const sameModel = query.model !== undefined ? [eq(entities.embeddingModel, query.model)] : [];
+    const distance = distanceTo(entities.embedding);
+
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`SET LOCAL hnsw.iterative_scan = strict_order`);
+
+      const entityHits = await tx
+        .select({ ...getTableColumns(entities), distance })
+        .from(entities)
+        .where(and(...filter, ...sameModel, hasSize(entities.embedding)))
+        .orderBy(distance)
+        .limit(limit);
+
+      const chunkDistance = distanceTo(entityChunks.embedding);
+      const chunkHits = await tx
+        .select({
+          entityId: entityChunks.entityId,
+          text: entityChunks.text,
+          distance: chunkDistance,
+        })
+        .from(entityChunks)
+        .innerJoin(entities, eq(entityChunks.entityId, entities.id))
+        .where(and(...filter, ...sameModel, hasSize(entityChunks.embedding)))
+        .orderBy(chunkDistance)
+        .limit(limit * CHUNK_OVERFETCH);
+
+      const bestChunks = new Map<string, { text: string; distance: number }>();
+      for (const hit of chunkHits) {
+        if (!bestChunks.has(hit.entityId)) bestChunks.set(hit.entityId, hit);
+      }
 
-    const rows = await query;
-    return rows.map((row) => this.rowToEntity<T>(row));
+      // Entities matched through a chunk alone
+      const hitIds = new Set(entityHits.map((hit) => hit.id));
+      const chunkOnlyIds = [...bestChunks.keys()].filter((id) => !hitIds.has(id));
+      const chunkOnlyHits = chunkOnlyIds.length > 0
+        ? await tx
+            .select({
+              ...getTableColumns(entities),
+              distance: sql<number | null>`CASE WHEN ${hasSize(entities.embedding)} THEN ${distance} END`,
+            })
+            .from(entities)
+            .where(inArray(entities.id, chunkOnlyIds))
+        : [];
+
+      const [incomparable] = await tx
+        .select({ count: sql<number>`count(*)` })
+        .from(entities)
+        .where(
+          and(
+            ...filter,
+            isNotNull(entities.embedding),
+            // A NULL model makes the match NULL, not false: count it as skipped
+            sql`NOT coalesce(${and(...sameModel, hasSize(entities.embedding))}, false)`
+          )
+        );
+
+      const results: SearchResult<T>[] = [...entityHits, ...chunkOnlyHits]
+        .map(({ distance: entityDistance, ...row }) => {
+          const chunk = bestChunks.get(row.id);
+          const scores = entityDistance === null ? [] : [1 - entityDistance];
+          if (chunk) scores.push(1 - chunk.distance);
+
+          return {
+            entity: rowToEntity<T>(row),
+            score: Math.max(...scores),
+            ...(chunk && { highlights: [chunk.text] }),
+          };
+        })
+        .filter((r) => r.score >= threshold)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+
+      return {
+        results,
+        total: results.length,
+        query: '',
+        took: Date.now() - startTime,
+        skipped: Number(incomparable?.count ?? 0),
+      };
+    });
   }
 
-  async search<T extends Entity>(query: VectorQuery): Promise<SearchResponse<T>> {
+  /**
+   * Cosine similarity computed in JavaScript over every candidate row, for
+   * databases without pgvector
+   */
+  private async searchScan<T extends Entity>(query: VectorQuery): Promise<SearchResponse<T>> {
     const startTime = Date.now();
+    const db = this.client.getDb();
 
     // Get all entities (with optional filter)
-    const allEntities = await this.query<T>(query.filter ?? {});
+    const conditions = this.buildConditions(query.filter ?? {});
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const rows = await db.select().from(entities).where(where);
 
-    // Filter to those with embeddings
-    const withEmbeddings = allEntities.filter((e) => e.embedding?.length);
+    const comparable = (row: { embedding: number[] | null; embeddingModel: string | null }) =>
+      row.embedding?.length === query.embedding.length &&
+      (query.model === undefined || row.embeddingModel === query.model);
+
+    // Best chunk of each entity matching the same filter
+    const chunkRows = await db
+      .select({
+        entityId: entityChunks.entityId,
+        text: entityChunks.text,
+        embedding: entityChunks.embedding,
+        embeddingModel: entities.embeddingModel,
+      })
+      .from(entityChunks)
+      .innerJoin(entities, eq(entityChunks.entityId, entities.id))
+      .where(where);
+
+    const bestChunks = new Map<string, { text: string; score: number }>();
+    for (const row of chunkRows) {
+      if (!row.embedding || !comparable(row)) continue;
+
+      const score = this.cosineSimilarity(query.embedding, row.embedding);
+      const best = bestChunks.get(row.entityId);
+      if (!best || score > best.score) {
+        bestChunks.set(row.entityId, { text: row.text, score });
+      }
+    }
 
     // Compute similarity scores
-    const scored: SearchResult<T>[] = withEmbeddings
-      .map((entity) => ({
-        entity,
-        score: this.cosineSimilarity(query.embedding, entity.embedding!),
-      }))
+    let skipped = 0;
+    const scored: SearchResult<T>[] = rows
+      .flatMap((row) => {
+        if (!row.embedding?.length) return [];
+        if (!comparable(row)) {
+          skipped++;
+          return [];
+        }
+
+        const entity = rowToEntity<T>(row);
+        const chunk = bestChunks.get(entity.id);
+        const scores = [this.cosineSimilarity(query.embedding, row.embedding)];
+        if (chunk) scores.push(chunk.score);
+
+        return [{
+          entity,
+          score: Math.max(...scores),
+          ...(chunk && { highlights: [chunk.text] }),
+        }];
+      })
       .filter((r) => r.score >= (query.threshold ?? 0))
       .sort((a, b) => b.score - a.score)
       .slice(0, query.limit ?? 10);
@@ -174,9 +471,261 @@ export class PGliteStorageAdapter implements StorageAdapter {
       total: scored.length,
       query: '', // Vector query doesn't have text
       took: Date.now() - startTime,
+      skipped,
+    };
+  }
+
+  /**
+   * Two stages over quantized embeddings: every code is scored cheaply
+   * against the query's own code, then the best `limit * rescoreFactor`
+   * entities are rescored with the full-precision query. Only ids and codes
+   * are read until the results are known.
+   */
+  private async searchQuantized<T extends Entity>(query: VectorQuery): Promise<SearchResponse<T>> {
+    const startTime = Date.now();
+    const db = this.client.getDb();
+    const { type, rescoreFactor } = this.client.getQuantization()!;
+    const limit = query.limit ?? 10;
+
+    if (query.embedding.length === 0) {
+      return { results: [], total: 0, query: '', took: Date.now() - startTime, skipped: 0 };
+    }
+
+    const conditions = this.buildConditions(query.filter ?? {});
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    const scorer = new QuantizedScorer(query.embedding, type);
+    const comparable = (code: Uint8Array, model: string | null) =>
+      scorer.accepts(code) && (query.model === undefined || model === query.model);
+    const hex = (column: typeof entities.embeddingCode | typeof entityChunks.embeddingCode) =>
+      sql<string>`encode(${column}, 'hex')`;
+
+    const rows = await db
+      .select({ id: entities.id, code: hex(entities.embeddingCode), model: entities.embeddingModel })
+      .from(entities)
+      .where(and(where, isNotNull(entities.embeddingCode)));
+
+    const chunkRows = await db
+      .select({
+        entityId: entityChunks.entityId,
+        index: entityChunks.chunkIndex,
+        code: hex(entityChunks.embeddingCode),
+        model: entities.embeddingModel,
+      })
+      .from(entityChunks)
+      .innerJoin(entities, eq(entityChunks.entityId, entities.id))
+      .where(and(where, isNotNull(entityChunks.embeddingCode)));
+
+    // Stage 1: estimate each entity's best score, chunks included
+    type Candidate = {
+      code: Uint8Array | null;
+      chunks: Array<{ index: number; code: Uint8Array }>;
+      estimate: number;
+    };
+    const candidates = new Map<string, Candidate>();
+
+    let skipped = 0;
+    for (const row of rows) {
+      const code = codeFromHex(row.code);
+      if (!comparable(code, row.model)) {
+        skipped++;
+        continue;
+      }
+      candidates.set(row.id, { code, chunks: [], estimate: scorer.estimate(code) });
+    }
+
+    for (const row of chunkRows) {
+      const code = codeFromHex(row.code);
+      if (!comparable(code, row.model)) continue;
+
+      let candidate = candidates.get(row.entityId);
+      if (!candidate) {
+        candidate = { code: null, chunks: [], estimate: -Infinity };
+        candidates.set(row.entityId, candidate);
+      }
+      candidate.chunks.push({ index: row.index, code });
+      candidate.estimate = Math.max(candidate.estimate, scorer.estimate(code));
+    }
+
+    // Stage 2: rescore the best estimates
+    const scored = [...candidates]
+      .sort(([, a], [, b]) => b.estimate - a.estimate)
+      .slice(0, limit * rescoreFactor)
+      .map(([id, candidate]) => {
+        let chunk: { index: number; score: number } | undefined;
+        for (const { index, code } of candidate.chunks) {
+          const score = scorer.rescore(code);
+          if (!chunk || score > chunk.score) chunk = { index, score };
+        }
+
+        const scores = candidate.code ? [scorer.rescore(candidate.code)] : [];
+        if (chunk) scores.push(chunk.score);
+        return { id, chunk, score: Math.max(...scores) };
+      })
+      .filter((r) => r.score >= (query.threshold ?? 0))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    if (scored.length === 0) {
+      return { results: [], total: 0, query: '', took: Date.now() - startTime, skipped };
+    }
+
+    const entityRows = await db
+      .select()
+      .from(entities)
+      .where(inArray(entities.id, scored.map((r) => r.id)));
+    const byId = new Map(entityRows.map((row) => [row.id, row]));
+
+    const highlighted = scored.filter((r) => r.chunk);
+    const chunkTexts = highlighted.length > 0
+      ? await db
+          .select({
+            entityId: entityChunks.entityId,
+            index: entityChunks.chunkIndex,
+            text: entityChunks.text,
+          })
+          .from(entityChunks)
+          .where(
+            or(
+              ...highlighted.map((r) =>
+                and(eq(entityChunks.entityId, r.id), eq(entityChunks.chunkIndex, r.chunk!.index))
+              )
+            )
+          )
+      : [];
+    const texts = new Map(chunkTexts.map((chunk) => [chunk.entityId, chunk.text]));
+
+    // Rows deleted since the scan are dropped
+    const results: SearchResult<T>[] = scored.flatMap(({ id, score }) => {
+      const row = byId.get(id);
+      if (!row) return [];
+
+      const text = texts.get(id);
+      return [{
+        entity: rowToEntity<T>(row),
+        score,
+        ...(text !== undefined && { highlights: [text] }),
+      }];
+    });
+
+    return {
+      results,
+      total: results.length,
+      query: '',
+      took: Date.now() - startTime,
+      skipped,
     };
   }
 
+  // ---------------------------------------------------------------------------
+  // Embedding Index
+  // ---------------------------------------------------------------------------
+
+  async queryByEmbeddingStatus<T extends Entity>(
+    statuses: EmbeddingStatus[],
+    limit?: number
+  ): Promise<T[]> {
+    const db = this.client.getDb();
+
+    const query = db
+      .select()
+      .from(entities)
+      .where(inArray(entities.embeddingStatus, statuses))
+      .orderBy(asc(entities.updatedAt));
+
+    const rows = limit !== undefined ? await query.limit(limit) : await query;
+    return rows.map((row) => rowToEntity<T>(row));
+  }
+
+  async countByEmbeddingStatus(): Promise<Record<EmbeddingStatus, number>> {
+    const db = this.client.getDb();
+
+    const rows = await db
+      .select({
+        status: entities.embeddingStatus,
+        count: sql<number>`count(*)`,
+      })
+      .from(entities)
+      .groupBy(entities.embeddingStatus);
+
+    const counts: Record<EmbeddingStatus, number> = {
+      indexed: 0,
+      missing: 0,
+      stale: 0,
+    };
+    for (const row of rows) {
+      counts[row.status as EmbeddingStatus] = Number(row.count);
+    }
+    return counts;
+  }
+
+  async setEmbedding(
+    id: string,
+    syncVersion: string | undefined,
+    embedding: number[],
+    chunks: EntityChunk[],
+    model: EmbeddingModel
+  ): Promise<boolean> {
+    const db = this.client.getDb();
+    const quantization = this.getQuantizationType();
+
+    return db.transaction(async (tx) => {
+      // Neither updatedAt nor the sync state change: the content did not
+      const rows = await tx
+        .update(entities)
+        .set({
+          ...encodeEmbedding(embedding, quantization),
+          embeddingStatus: 'indexed',
+          embeddingModel: model.model,
+          embeddingDimensions: model.dimensions,
+        })
+        .where(
+          and(
+            eq(entities.id, id),
+            syncVersion === undefined
+              ? isNull(entities.syncVersion)
+              : eq(entities.syncVersion, syncVersion)
+          )
+        )
+        .returning({ id: entities.id });
+
+      if (rows.length === 0) return false;
+
+      await tx.delete(entityChunks).where(eq(entityChunks.entityId, id));
+      if (chunks.length > 0) {
+        await tx.insert(entityChunks).values(
+          chunks.map((chunk) => ({
+            entityId: id,
+            chunkIndex: chunk.index,
+            text: chunk.text,
+            ...encodeEmbedding(chunk.embedding, quantization),
+          }))
+        );
+      }
+      return true;
+    });
+  }
+
+  async flagOutdatedEmbeddings(model: EmbeddingModel): Promise<number> {
+    const db = this.client.getDb();
+
+    // The active model's vectors are about to be written; index their size
+    await this.client.ensureVectorIndex(model.dimensions);
+
+    const rows = await db
+      .update(entities)
+      .set({ embeddingStatus: 'stale' })
+      .where(
+        and(
+          eq(entities.embeddingStatus, 'indexed'),
+          sql`(${entities.embeddingModel} IS DISTINCT FROM ${model.model}
+            OR ${entities.embeddingDimensions} IS DISTINCT FROM ${model.dimensions})`
+        )
+      )
+      .returning({ id: entities.id });
+
+    return rows.length;
+  }
+
   // ---------------------------------------------------------------------------
   // Bulk Operations
   // ---------------------------------------------------------------------------
@@ -184,28 +733,55 @@ export class PGliteStorageAdapter implements StorageAdapter {
   async bulkCreate<T extends Entity>(entityList: T[]): Promise<T[]> {
     const db = this.client.getDb();
 
-    const rows: NewEntityRow[] = entityList.map((entity) => ({
-      id: entity.id,
-      type: entity.type,
-      memoryLayer: entity.memoryLayer,
-      title: entity.title,
-      content: entity.content,
-      embedding: entity.embedding ?? null,
-      metadata: this.extractMetadata(entity),
-      links: entity.links,
-      tags: entity.tags,
-      createdAt: entity.createdAt,
-      updatedAt: entity.updatedAt,
+    if (entityList.length === 0) return entityList;
+
+    const rows = entityList.map((entity) => ({
+      ...entityToRow(entity, this.getQuantizationType()),
+      embeddingStatus: getEmbeddingStatus(entity, true),
+      syncStatus: 'pending',
     }));
 
-    await db.insert(entities).values(rows);
+    await db.transaction(async (tx) => {
+      await tx.insert(entities).values(rows);
+      for (const entity of entityList) {
+        await this.logChange(tx, entity.id, 'create', entity);
+      }
+    });
 
     return entityList;
   }
 
-  async bulkDelete(ids: string[]): Promise<void> {
+  /**
+   * Delete entities, leaving a tombstone per entity so the delete syncs
+   */
+  async bulkDelete(ids: string[], syncVersion?: string): Promise<void> {
     const db = this.client.getDb();
-    await db.delete(entities).where(inArray(entities.id, ids));
+
+    if (ids.length === 0) return;
+
+    await db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(entities)
+        .where(inArray(entities.id, ids))
+        .returning();
+
+      if (deleted.length === 0) return;
+
+      await tx
+        .insert(tombstones)
+        .values(
+          deleted.map((row) => ({
+            entityId: row.id,
+            entityType: row.type,
+            syncVersion: syncVersion ?? null,
+          }))
+        )
+        .onConflictDoNothing();
+
+      for (const row of deleted) {
+        await this.logChange(tx, row.id, 'delete', rowToEntity(row));
+      }
+    });
   }
 
   // ---------------------------------------------------------------------------
@@ -266,15 +842,50 @@ export class PGliteStorageAdapter implements StorageAdapter {
     const vectorResult = await db
       .select({ count: sql<number>`count(*)` })
       .from(entities)
-      .where(sql`embedding IS NOT NULL`);
+      .where(sql`embedding IS NOT NULL OR embedding_code IS NOT NULL`);
     const vectorCount = Number(vectorResult[0]?.count ?? 0);
 
+    const { rows: [size] } = await this.client
+      .getPGlite()
+      .query<{ size: number }>('SELECT pg_database_size(current_database()) AS size');
+
     return {
       totalEntities,
       byLayer,
       byType,
-      storageSize: 0, // Would need to query pg_total_relation_size
+      storageSize: Number(size?.size ?? 0),
       vectorCount,
+      embeddingStatus: await this.countByEmbeddingStatus(),
+      embeddingStorage: await this.getEmbeddingStorageStats(),
+    };
+  }
+
+  /**
+   * Bytes taken by embeddings, and saved by storing codes instead of
+   * float32 vectors of the same size
+   */
+  private async getEmbeddingStorageStats(): Promise<EmbeddingStorageStats> {
+    const db = this.client.getDb();
+    const dimensions = sql.raw(codeDimensionsSql('embedding_code'));
+
+    const totals = await Promise.all(
+      [entities, entityChunks].map(async (table) => {
+        const [row] = await db
+          .select({
+            size: sql<number>`coalesce(sum(
+              coalesce(pg_column_size(embedding), 0) + coalesce(octet_length(embedding_code), 0)
+            ), 0)`,
+            saved: sql<number>`coalesce(sum(4 * ${dimensions} - octet_length(embedding_code)), 0)`,
+          })
+          .from(table);
+        return { size: Number(row?.size ?? 0), saved: Number(row?.saved ?? 0) };
+      })
+    );
+
+    return {
+      quantization: this.getQuantizationType() ?? null,
+      size: totals.reduce((sum, total) => sum + total.size, 0),
+      saved: totals.reduce((sum, total) => sum + total.saved, 0),
     };
   }
 
@@ -282,54 +893,58 @@ export class PGliteStorageAdapter implements StorageAdapter {
   // Private Helpers
   // ---------------------------------------------------------------------------
 
-  private rowToEntity<T extends Entity>(row: EntityRow): T {
-    const base: Entity = {
-      id: row.id,
-      type: row.type as EntityType,
-      memoryLayer: row.memoryLayer as MemoryLayerType,
-      title: row.title,
-      content: row.content,
-      embedding: row.embedding ?? undefined,
-      links: (row.links as Entity['links']) ?? [],
-      tags: row.tags ?? [],
-      createdAt: row.createdAt,
-      updatedAt: row.updatedAt,
-    };
+  private async logChange(
+    db: Executor,
+    entityId: string,
+    operation: ChangeOperation,
+    payload: Entity
+  ): Promise<void> {
+    await db.insert(syncLog).values({
+      entityId,
+      operation,
+      payload,
+      clientId: this.clientId,
+    });
+  }
 
-    // Merge in type-specific metadata
-    const metadata = row.metadata as Record<string, unknown> | null;
-    if (metadata) {
-      Object.assign(base, metadata);
+  private buildConditions(filter: EntityFilter): SQL[] {
+    const conditions: SQL[] = [];
+
+    if (filter.types && filter.types.length > 0) {
+      conditions.push(inArray(entities.type, filter.types));
     }
 
-    return base as T;
-  }
+    if (filter.memoryLayers && filter.memoryLayers.length > 0) {
+      conditions.push(inArray(entities.memoryLayer, filter.memoryLayers));
+    }
 
-  private extractMetadata(entity: Partial<Entity>): Record<string, unknown> {
-    const metadata: Record<string, unknown> = {};
+    if (filter.dateRange?.start) {
+      conditions.push(gte(entities.createdAt, filter.dateRange.start));
+    }
 
-    // Extract type-specific fields
-    const baseFields = new Set([
-      'id', 'type', 'memoryLayer', 'title', 'content',
-      'embedding', 'links', 'tags', 'createdAt', 'updatedAt',
-    ]);
+    if (filter.dateRange?.end) {
+      conditions.push(lte(entities.createdAt, filter.dateRange.end));
+    }
 
-    for (const [key, value] of Object.entries(entity)) {
-      if (!baseFields.has(key) && value !== undefined) {
-        metadata[key] = value;
+    // Note: Tag filtering requires array overlap operation
+    // This is a simplified implementation
+    if (filter.tags && filter.tags.length > 0) {
+      // For each tag, check if it's in the array
+      // In production, use: entities.tags && filter.tags (array overlap)
+      for (const tag of filter.tags) {
+        conditions.push(sql`${tag} = ANY(${entities.tags})`);
       }
     }
 
-    return metadata;
+    return conditions;
   }
 
-  private hasMetadataFields(updates: Partial<Entity>): boolean {
-    const baseFields = new Set([
-      'id', 'type', 'memoryLayer', 'title', 'content',
-      'embedding', 'links', 'tags', 'createdAt', 'updatedAt',
-    ]);
+  private getQuantizationType(): QuantizationType | undefined {
+    return this.client.getQuantization()?.type;
+  }
 
-    return Object.keys(updates).some((key) => !baseFields.has(key));
+  private hasMetadataFields(updates: Partial<Entity>): boolean {
+    return Object.keys(updates).some((key) => !BASE_FIELDS.has(key));
   }
 
   private cosineSimilarity(a: number[], b: number[]): number {
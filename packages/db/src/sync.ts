@@ -2,13 +2,50 @@
 // ElectricSQL Sync Layer
 // =============================================================================
 
+import {
+  and,
+  asc,
+  countDistinct,
+  desc,
+  eq,
+  inArray,
+  isNull,
+  ne,
+} from 'drizzle-orm';
 import type {
+  Entity,
+  EntityType,
+  Tombstone,
   SyncState,
   SyncConflict,
   ReplicationConfig,
   MemoryEvent,
+  MemoryEventType,
+  PushPayload,
+  PushResponse,
+  SyncEntity,
+  PullResponse,
 } from '@unimem/types';
+import { HybridLogicalClock, matchesFilter, mergeEntities } from '@unimem/core';
+import type { MemoryEngine } from '@unimem/core';
 import type { DatabaseClient } from './client';
+import type { SyncKeyring } from './encryption';
+import { entities, entityChunks, syncLog, syncMeta, tombstones } from './schema';
+import { entityToRow, getEmbeddingStatus, rowToEntity } from './storage-adapter';
+
+// -----------------------------------------------------------------------------
+// Errors
+// -----------------------------------------------------------------------------
+
+/**
+ * The sync server could not be reached. Sync stays pending and retries.
+ */
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
 
 // -----------------------------------------------------------------------------
 // Sync Manager Configuration
@@ -18,6 +55,65 @@ export interface SyncManagerConfig {
   client: DatabaseClient;
   replication: ReplicationConfig;
   clientId: string;
+
+  /**
+   * Fetch implementation used to reach the sync server (defaults to global fetch)
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Clock shared with the MemoryEngine, advanced by every pulled version
+   */
+  clock?: HybridLogicalClock;
+
+  /**
+   * Engine whose entity events trigger an immediate sync
+   */
+  engine?: Pick<MemoryEngine, 'on'>;
+
+  /**
+   * Backoff applied after a failed sync
+   */
+  retry?: SyncRetryOptions;
+
+  /**
+   * Keys for end-to-end encryption of pushed entities (clear text when
+   * omitted). Type, memory layer, tags and timestamps stay readable by the
+   * server, which filters selective sync on them.
+   */
+  encryption?: SyncKeyring;
+
+  /**
+   * Device API key issued by the sync server, exchanged for short-lived
+   * access tokens
+   */
+  apiKey?: string;
+}
+
+export interface SyncRetryOptions {
+  baseDelay?: number; // milliseconds before the first retry
+  maxDelay?: number;  // upper bound for the backoff delay
+}
+
+interface AccessToken {
+  token: string;
+  expiresAt: number; // ms since epoch
+}
+
+interface PendingChange {
+  entity: Entity;
+  baseVersion: string | null;
+}
+
+/**
+ * Payload of a 'conflict' row in sync_log
+ */
+interface ConflictRecord {
+  base: Entity | null;
+  local: Entity;
+  remote: Entity;
+  merged: Entity | null;
+  unresolved: string[];
 }
 
 // -----------------------------------------------------------------------------
@@ -26,14 +122,54 @@ export interface SyncManagerConfig {
 
 type SyncEventHandler = (event: MemoryEvent) => void;
 
+const PULL_PAGE_SIZE = 100;
+const PUSH_BATCH_SIZE = 100;
+const LAST_SYNC_VERSION_KEY = 'last_sync_version';
+const SYNC_SCOPE_KEY = 'sync_scope';
+const DEFAULT_RETRY_BASE_DELAY = 1000;
+const DEFAULT_RETRY_MAX_DELAY = 5 * 60 * 1000;
+// Renew access tokens this long before they expire
+const TOKEN_REFRESH_MARGIN = 60 * 1000;
+const ENTITY_EVENTS: MemoryEventType[] = [
+  'entity:created',
+  'entity:updated',
+  'entity:deleted',
+];
+
+/**
+ * Unacknowledged change rows in sync_log: the outbound queue
+ */
+const queuedChange = and(
+  isNull(syncLog.resolved),
+  ne(syncLog.operation, 'conflict')
+);
+
 export class SyncManager {
   private client: DatabaseClient;
   private config: ReplicationConfig;
   private clientId: string;
-  private syncInterval: ReturnType<typeof setInterval> | null = null;
+  private fetchFn: typeof fetch;
+  private clock: HybridLogicalClock;
+  private engine: SyncManagerConfig['engine'];
+  private encryption: SyncKeyring | null;
+  private apiKey: string | null;
+  private accessToken: AccessToken | null = null;
+  private retry: Required<SyncRetryOptions>;
+  private running = false;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private inFlight: Promise<SyncState> | null = null;
+  private syncRequested = false;
+  private failures = 0;
+  private scopeApplied = false;
+  private liveChannel: AbortController | null = null;
+  private liveConnected = false;
+  private liveFailures = 0;
+  private liveTimer: ReturnType<typeof setTimeout> | null = null;
+  private unsubscribers: Array<() => void> = [];
   private eventHandlers: Set<SyncEventHandler> = new Set();
   private state: SyncState = {
     status: 'synced',
+    online: isNavigatorOnline(),
     pendingChanges: 0,
     conflictCount: 0,
   };
@@ -42,6 +178,15 @@ export class SyncManager {
     this.client = config.client;
     this.config = config.replication;
     this.clientId = config.clientId;
+    this.fetchFn = config.fetch ?? ((input, init) => fetch(input, init));
+    this.clock = config.clock ?? new HybridLogicalClock(config.clientId);
+    this.engine = config.engine;
+    this.encryption = config.encryption ?? null;
+    this.apiKey = config.apiKey ?? null;
+    this.retry = {
+      baseDelay: config.retry?.baseDelay ?? DEFAULT_RETRY_BASE_DELAY,
+      maxDelay: config.retry?.maxDelay ?? DEFAULT_RETRY_MAX_DELAY,
+    };
   }
 
   // ---------------------------------------------------------------------------
@@ -57,64 +202,77 @@ export class SyncManager {
       return;
     }
 
-    // Initial sync
-    await this.sync();
+    this.running = true;
 
-    // Set up periodic sync
-    if (this.config.syncInterval > 0) {
-      this.syncInterval = setInterval(
-        () => this.sync(),
-        this.config.syncInterval
-      );
+    // Push local edits right away instead of waiting for the next tick
+    if (this.engine) {
+      for (const type of ENTITY_EVENTS) {
+        this.unsubscribers.push(this.engine.on(type, () => this.requestSync()));
+      }
     }
+
+    this.listenForConnectivity();
+
+    if (this.config.live !== false) {
+      this.connectLiveChannel();
+    }
+
+    // Initial sync; every sync schedules the next one
+    await this.sync();
   }
 
   /**
    * Stop the sync process
    */
   stop(): void {
-    if (this.syncInterval) {
-      clearInterval(this.syncInterval);
-      this.syncInterval = null;
+    this.running = false;
+
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+      this.syncTimer = null;
+    }
+
+    if (this.liveTimer) {
+      clearTimeout(this.liveTimer);
+      this.liveTimer = null;
+    }
+    this.liveChannel?.abort();
+    this.liveChannel = null;
+
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
     }
+    this.unsubscribers = [];
+  }
+
+  /**
+   * Sync as soon as possible. Requests made while a sync is running are
+   * coalesced into one follow-up sync.
+   */
+  requestSync(): void {
+    if (!this.running || !this.state.online) return;
+    void this.sync();
   }
 
   /**
    * Perform a sync operation
    */
   async sync(): Promise<SyncState> {
-    this.emit('sync:started', { clientId: this.clientId });
+    if (this.inFlight) {
+      this.syncRequested = true;
+      return this.inFlight;
+    }
 
+    this.inFlight = this.runSync();
     try {
-      // Get pending changes from local
-      const pendingChanges = await this.getPendingChanges();
-
-      if (pendingChanges.length > 0) {
-        // Push local changes to server
-        await this.pushChanges(pendingChanges);
+      return await this.inFlight;
+    } finally {
+      this.inFlight = null;
+      if (this.syncRequested) {
+        this.syncRequested = false;
+        void this.sync();
       }
-
-      // Pull remote changes
-      await this.pullChanges();
-
-      // Update state
-      this.state = {
-        status: 'synced',
-        lastSyncedAt: new Date(),
-        pendingChanges: 0,
-        conflictCount: await this.getConflictCount(),
-      };
-
-      this.emit('sync:completed', this.state);
-    } catch (error) {
-      this.state = {
-        ...this.state,
-        status: 'error',
-      };
-      console.error('Sync error:', error);
     }
-
-    return this.state;
   }
 
   /**
@@ -128,65 +286,89 @@ export class SyncManager {
    * Get unresolved conflicts
    */
   async getConflicts(): Promise<SyncConflict[]> {
-    const result = await this.client.execute(`
-      SELECT * FROM sync_log
-      WHERE resolved IS NULL
-      ORDER BY timestamp DESC
-    `);
+    const db = this.client.getDb();
 
-    // Parse conflicts from sync log
-    // This is a simplified implementation
-    return (result.rows as Array<Record<string, unknown>>).map((row) => ({
-      entityId: row.entity_id as string,
-      localVersion: row.payload as SyncConflict['localVersion'],
-      remoteVersion: row.payload as SyncConflict['remoteVersion'],
-    }));
+    const rows = await db
+      .select()
+      .from(syncLog)
+      .where(and(eq(syncLog.operation, 'conflict'), isNull(syncLog.resolved)))
+      .orderBy(desc(syncLog.timestamp));
+
+    return rows.map((row) => {
+      const record = row.payload as ConflictRecord;
+
+      return {
+        entityId: row.entityId,
+        localVersion: reviveEntity(record.local),
+        remoteVersion: reviveEntity(record.remote),
+        baseVersion: record.base ? reviveEntity(record.base) : undefined,
+        mergedVersion: record.merged ? reviveEntity(record.merged) : undefined,
+        unresolvedFields: record.unresolved,
+      };
+    });
   }
 
   /**
-   * Resolve a conflict
+   * Resolve a conflict. A 'merged' resolution applies `mergedEntity`, or the
+   * best-effort merge computed when the conflict was detected.
    */
   async resolveConflict(
     entityId: string,
     resolution: 'local' | 'remote' | 'merged',
-    mergedEntity?: unknown
+    mergedEntity?: Entity
   ): Promise<void> {
+    const conflicts = await this.getConflicts();
+    const conflict = conflicts.find((c) => c.entityId === entityId);
+
+    if (!conflict) {
+      throw new Error(`No unresolved conflict for entity ${entityId}`);
+    }
+
     if (resolution === 'local') {
-      // Keep local version, mark as resolved
-      await this.client.execute(
-        `UPDATE sync_log SET resolved = NOW() WHERE entity_id = $1`,
-        [entityId]
-      );
+      // Keep the current local version and push it on the next sync
+      const local = await this.getLocalEntity(entityId);
+      await this.writeMergedEntity(local ?? conflict.localVersion, conflict.remoteVersion);
     } else if (resolution === 'remote') {
-      // Apply remote version
-      const conflicts = await this.getConflicts();
-      const conflict = conflicts.find((c) => c.entityId === entityId);
-      if (conflict) {
-        await this.client.execute(
-          `UPDATE entities SET
-            title = $1, content = $2, updated_at = NOW()
-          WHERE id = $3`,
-          [conflict.remoteVersion.title, conflict.remoteVersion.content, entityId]
-        );
+      await this.writeRemoteEntity(conflict.remoteVersion, true);
+    } else {
+      const merged = mergedEntity ?? conflict.mergedVersion;
+      if (!merged) {
+        throw new Error(`No merged version available for entity ${entityId}`);
       }
-      await this.client.execute(
-        `UPDATE sync_log SET resolved = NOW() WHERE entity_id = $1`,
-        [entityId]
-      );
-    } else if (resolution === 'merged' && mergedEntity) {
-      // Apply merged version
-      const merged = mergedEntity as { title: string; content: string };
-      await this.client.execute(
-        `UPDATE entities SET
-          title = $1, content = $2, updated_at = NOW()
-        WHERE id = $3`,
-        [merged.title, merged.content, entityId]
-      );
-      await this.client.execute(
-        `UPDATE sync_log SET resolved = NOW() WHERE entity_id = $1`,
-        [entityId]
-      );
+      await this.writeMergedEntity({ ...merged, id: entityId } as Entity, conflict.remoteVersion);
     }
+
+    await this.resolveConflictRecords(entityId);
+  }
+
+  /**
+   * Queue every synced entity for upload again, e.g. after switching the
+   * keyring to a new key, so the server stops holding data under the old one
+   */
+  async reencryptAll(): Promise<number> {
+    const db = this.client.getDb();
+
+    const count = await db.transaction(async (tx) => {
+      const rows = await tx
+        .update(entities)
+        .set({ syncStatus: 'pending' })
+        .where(eq(entities.syncStatus, 'synced'))
+        .returning();
+
+      for (const row of rows) {
+        await tx.insert(syncLog).values({
+          entityId: row.id,
+          operation: 'update',
+          payload: rowToEntity(row),
+          clientId: this.clientId,
+        });
+      }
+
+      return rows.length;
+    });
+
+    this.requestSync();
+    return count;
   }
 
   // ---------------------------------------------------------------------------
@@ -198,12 +380,16 @@ export class SyncManager {
     return () => this.eventHandlers.delete(handler);
   }
 
-  private emit(type: MemoryEvent['type'], payload: unknown): void {
+  private emit(
+    type: MemoryEvent['type'],
+    payload: unknown,
+    source: MemoryEvent['source'] = 'local'
+  ): void {
     const event: MemoryEvent = {
       type,
       payload,
       timestamp: new Date(),
-      source: 'local',
+      source,
     };
 
     for (const handler of this.eventHandlers) {
@@ -219,53 +405,933 @@ export class SyncManager {
   // Private Helpers
   // ---------------------------------------------------------------------------
 
-  private async getPendingChanges(): Promise<unknown[]> {
-    const result = await this.client.execute(`
-      SELECT * FROM entities
-      WHERE sync_status = 'pending'
-      ORDER BY updated_at ASC
-    `);
-    return result.rows as unknown[];
+  private async runSync(): Promise<SyncState> {
+    this.emit('sync:started', { clientId: this.clientId });
+
+    try {
+      if (!this.scopeApplied) {
+        await this.applyScope();
+        this.scopeApplied = true;
+      }
+
+      // Drain the outbound queue
+      await this.pushQueued(
+        await this.getPendingChanges(),
+        await this.getPendingTombstones()
+      );
+
+      // Pull remote changes
+      await this.pullChanges();
+
+      // Push versions merged or rebased while handling conflicts
+      await this.pushQueued(await this.getPendingChanges(), []);
+
+      // Update state
+      this.failures = 0;
+      this.state = {
+        status: 'synced',
+        online: true,
+        lastSyncedAt: new Date(),
+        pendingChanges: await this.getQueueDepth(),
+        conflictCount: await this.getConflictCount(),
+      };
+
+      this.emit('sync:completed', this.state);
+
+      // The live channel announces remote changes; poll only without it
+      if (!this.liveConnected) {
+        this.scheduleSync(this.config.syncInterval);
+      }
+    } catch (error) {
+      // Any other failure is a fault to surface, not a reason to wait
+      const online = !(error instanceof NetworkError);
+
+      this.failures++;
+      this.state = {
+        ...this.state,
+        status: online ? 'error' : 'pending',
+        online,
+        pendingChanges: await this.getQueueDepth().catch(
+          () => this.state.pendingChanges
+        ),
+      };
+      console.error('Sync error:', error);
+
+      this.scheduleSync(this.getRetryDelay(this.failures));
+    }
+
+    return this.state;
   }
 
-  private async pushChanges(_changes: unknown[]): Promise<void> {
-    // TODO: Implement actual ElectricSQL push
-    // This would use the ElectricSQL client to push changes
-    // For now, this is a placeholder
+  private scheduleSync(delay: number): void {
+    if (!this.running || delay <= 0) return;
+
+    if (this.syncTimer) {
+      clearTimeout(this.syncTimer);
+    }
+
+    this.syncTimer = setTimeout(() => {
+      this.syncTimer = null;
+      void this.sync();
+    }, delay);
+  }
 
+  /**
+   * Exponential backoff with jitter, so clients coming back online together
+   * do not retry in lockstep
+   */
+  private getRetryDelay(attempt: number): number {
+    const ceiling = Math.min(
+      this.retry.maxDelay,
+      this.retry.baseDelay * 2 ** (attempt - 1)
+    );
+    return ceiling / 2 + Math.random() * (ceiling / 2);
+  }
+
+  private listenForConnectivity(): void {
+    if (typeof globalThis.addEventListener !== 'function') return;
+
+    const onOnline = () => {
+      this.state = { ...this.state, online: true };
+      this.failures = 0;
+      this.requestSync();
+    };
+    const onOffline = () => {
+      this.state = { ...this.state, online: false };
+    };
+
+    globalThis.addEventListener('online', onOnline);
+    globalThis.addEventListener('offline', onOffline);
+    this.unsubscribers.push(() => {
+      globalThis.removeEventListener('online', onOnline);
+      globalThis.removeEventListener('offline', onOffline);
+    });
+  }
+
+  private connectLiveChannel(): void {
+    if (!this.running || this.liveChannel) return;
+
+    const channel = new AbortController();
+    this.liveChannel = channel;
+
+    void this.runLiveChannel(channel.signal).finally(() => {
+      this.liveConnected = false;
+      this.liveChannel = null;
+      if (!this.running || channel.signal.aborted) return;
+
+      // Fall back to polling, and reconnect later
+      this.liveFailures++;
+      if (!this.syncTimer) {
+        this.scheduleSync(this.config.syncInterval);
+      }
+      this.liveTimer = setTimeout(() => {
+        this.liveTimer = null;
+        this.connectLiveChannel();
+      }, this.getRetryDelay(this.liveFailures));
+    });
+  }
+
+  /**
+   * Follow the server's change stream until it ends
+   */
+  private async runLiveChannel(signal: AbortSignal): Promise<void> {
+    const baseUrl = this.config.serverUrl!.replace(/\/+$/, '');
+    const params = new URLSearchParams({ clientId: this.clientId });
+    if (this.config.scope) {
+      params.set('scope', JSON.stringify(this.config.scope));
+    }
+
+    try {
+      const response = await this.fetchServer(
+        `${baseUrl}/api/sync/events?${params}`,
+        {
+          headers: { Accept: 'text/event-stream', ...(await this.getAuthHeaders()) },
+          signal,
+        }
+      );
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Live sync channel unavailable (${response.status})`);
+      }
+
+      this.liveConnected = true;
+      this.liveFailures = 0;
+
+      // Periodic polling is no longer needed, but retries after a failure are
+      if (this.syncTimer && this.failures === 0) {
+        clearTimeout(this.syncTimer);
+        this.syncTimer = null;
+      }
+
+      // Catch up on anything missed while disconnected
+      this.requestSync();
+
+      await readEventStream(response.body, (message) => {
+        if (message.event === 'change') {
+          this.requestSync();
+        }
+      });
+    } catch (error) {
+      if (!signal.aborted) {
+        console.warn('Live sync channel closed:', error);
+      }
+    }
+  }
+
+  /**
+   * Push queued changes in batches, so a long offline period does not turn
+   * into one oversized request
+   */
+  private async pushQueued(
+    changes: PendingChange[],
+    pendingTombstones: Tombstone[]
+  ): Promise<void> {
+    const total = Math.max(changes.length, pendingTombstones.length);
+
+    for (let i = 0; i < total; i += PUSH_BATCH_SIZE) {
+      await this.pushChanges(
+        changes.slice(i, i + PUSH_BATCH_SIZE),
+        pendingTombstones.slice(i, i + PUSH_BATCH_SIZE)
+      );
+    }
+  }
+
+  /**
+   * Entities with unacknowledged changes in sync_log. Rows in conflict stay
+   * queued until the conflict is resolved.
+   */
+  private async getPendingChanges(): Promise<PendingChange[]> {
+    const db = this.client.getDb();
+
+    const rows = await db
+      .select()
+      .from(entities)
+      .where(
+        and(
+          eq(entities.syncStatus, 'pending'),
+          inArray(
+            entities.id,
+            db
+              .selectDistinct({ entityId: syncLog.entityId })
+              .from(syncLog)
+              .where(queuedChange)
+          )
+        )
+      )
+      .orderBy(asc(entities.updatedAt));
+
+    return rows.map((row) => ({
+      entity: rowToEntity(row),
+      baseVersion: row.baseVersion,
+    }));
+  }
+
+  private async getPendingTombstones(): Promise<Tombstone[]> {
+    const db = this.client.getDb();
+
+    const rows = await db
+      .select()
+      .from(tombstones)
+      .orderBy(asc(tombstones.deletedAt));
+
+    return rows.map((row) => ({
+      entityId: row.entityId,
+      entityType: row.entityType as EntityType,
+      syncVersion: row.syncVersion ?? undefined,
+      deletedAt: row.deletedAt,
+    }));
+  }
+
+  private async pushChanges(
+    changes: PendingChange[],
+    pendingTombstones: Tombstone[]
+  ): Promise<void> {
     if (!this.config.serverUrl) return;
 
-    // Mark changes as synced
-    await this.client.execute(`
-      UPDATE entities
-      SET sync_status = 'synced'
-      WHERE sync_status = 'pending'
-    `);
+    const db = this.client.getDb();
+
+    const baseVersions: Record<string, string> = {};
+    for (const { entity, baseVersion } of changes) {
+      if (baseVersion) baseVersions[entity.id] = baseVersion;
+    }
+
+    const payload: PushPayload = {
+      clientId: this.clientId,
+      entities: await Promise.all(
+        changes.map((change) => this.encode(change.entity))
+      ),
+      tombstones: pendingTombstones,
+      baseVersions,
+      lastSyncVersion: await this.getLastSyncVersion(),
+    };
+
+    const response = await this.request<PushResponse>('/api/sync/push', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    });
+
+    // Only mark rows the server acknowledged, and only if they were not
+    // edited again while the push was in flight
+    const pushed = new Map(
+      changes.map(({ entity }) => [entity.id, entity])
+    );
+    const pushedTombstones = new Set(
+      pendingTombstones.map((tombstone) => tombstone.entityId)
+    );
+    for (const { entityId } of response.applied) {
+      // Once the server holds a tombstone, the local one has done its job
+      if (pushedTombstones.has(entityId)) {
+        await db.delete(tombstones).where(eq(tombstones.entityId, entityId));
+        await this.resolveLoggedChanges(entityId);
+        continue;
+      }
+
+      const entity = pushed.get(entityId);
+      if (!entity) continue;
+
+      const marked = await db
+        .update(entities)
+        .set({ syncStatus: 'synced', baseVersion: entity.syncVersion ?? null })
+        .where(
+          and(
+            eq(entities.id, entityId),
+            eq(entities.syncStatus, 'pending'),
+            eq(entities.updatedAt, entity.updatedAt)
+          )
+        )
+        .returning({ id: entities.id });
+
+      if (marked.length > 0) {
+        await this.resolveLoggedChanges(entityId);
+
+        // Created or moved outside the scope here: keep it only until pushed
+        if (!this.isInScope(entity)) {
+          await this.evictEntity(entityId);
+        }
+      }
+    }
+
+    // The server holds edits we had not seen when making ours
+    for (const { serverVersion, baseVersion } of response.conflicts) {
+      await this.handleConflict(
+        await this.decode(serverVersion),
+        baseVersion ? await this.decode(baseVersion) : null
+      );
+    }
+
+    // Edits to entities another device deleted are dropped
+    for (const tombstone of response.tombstones) {
+      await this.applyRemoteTombstone(tombstone);
+    }
   }
 
   private async pullChanges(): Promise<void> {
-    // TODO: Implement actual ElectricSQL pull
-    // This would use the ElectricSQL client to pull changes
-    // and handle conflict detection
-
     if (!this.config.serverUrl) return;
 
-    // Placeholder for ElectricSQL integration
-    // In production, this would:
-    // 1. Connect to ElectricSQL server
-    // 2. Subscribe to changes
-    // 3. Apply remote changes
-    // 4. Detect and log conflicts
+    let lastSyncVersion = await this.getLastSyncVersion();
+    let hasMore = true;
+
+    while (hasMore) {
+      const params = new URLSearchParams({
+        clientId: this.clientId,
+        lastSyncVersion,
+        limit: String(PULL_PAGE_SIZE),
+      });
+      if (this.config.scope) {
+        params.set('scope', JSON.stringify(this.config.scope));
+      }
+
+      const response = await this.request<PullResponse>(
+        `/api/sync/pull?${params}`
+      );
+
+      for (const entity of response.entities) {
+        await this.applyRemoteEntity(await this.decode(entity));
+      }
+
+      for (const tombstone of response.tombstones) {
+        await this.applyRemoteTombstone(tombstone);
+      }
+
+      for (const entityId of response.evicted) {
+        await this.evictEntity(entityId);
+      }
+
+      // Pages filtered down to nothing by the scope still move the cursor
+      hasMore = response.hasMore && response.syncVersion !== lastSyncVersion;
+      lastSyncVersion = response.syncVersion;
+      await this.setLastSyncVersion(lastSyncVersion);
+    }
+  }
+
+  private async applyRemoteEntity(entity: Entity): Promise<void> {
+    const db = this.client.getDb();
+
+    const [local] = await db
+      .select({ syncStatus: entities.syncStatus })
+      .from(entities)
+      .where(eq(entities.id, entity.id))
+      .limit(1);
+
+    this.receiveVersion(entity.syncVersion);
+
+    // A local edit that has not been pushed yet is concurrent with the remote
+    // one. Pushing it surfaces the conflict together with the common base.
+    if (local?.syncStatus === 'pending') {
+      return;
+    }
+
+    // A newer remote version of an open conflict: merge again from the same base
+    if (local?.syncStatus === 'conflict') {
+      const [open] = await db
+        .select({ payload: syncLog.payload })
+        .from(syncLog)
+        .where(
+          and(
+            eq(syncLog.entityId, entity.id),
+            eq(syncLog.operation, 'conflict'),
+            isNull(syncLog.resolved)
+          )
+        )
+        .limit(1);
+
+      const base = (open?.payload as ConflictRecord | undefined)?.base;
+      await this.handleConflict(entity, base ? reviveEntity(base) : null);
+      return;
+    }
+
+    // The entity moved outside this device's scope
+    if (!this.isInScope(entity)) {
+      await this.evictEntity(entity.id);
+      return;
+    }
+
+    await this.writeRemoteEntity(entity, false);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sync Scope
+  // ---------------------------------------------------------------------------
+
+  private isInScope(entity: Entity): boolean {
+    return !this.config.scope || matchesFilter(entity, this.config.scope);
+  }
+
+  /**
+   * Drop the local copy of an entity outside the scope. Unlike a delete,
+   * this leaves no tombstone and nothing in sync_log. Entities with unpushed
+   * edits or open conflicts are kept until those are settled.
+   */
+  private async evictEntity(entityId: string): Promise<void> {
+    await this.client
+      .getDb()
+      .delete(entities)
+      .where(and(eq(entities.id, entityId), eq(entities.syncStatus, 'synced')));
+  }
+
+  /**
+   * When the scope changed since the last sync, evict what no longer fits
+   * and pull everything again so newly included entities arrive
+   */
+  private async applyScope(): Promise<void> {
+    const scope = JSON.stringify(this.config.scope ?? {});
+    const previous = await this.getMeta(SYNC_SCOPE_KEY);
+    if (previous === scope) return;
+
+    if (this.config.scope) {
+      const rows = await this.client
+        .getDb()
+        .select()
+        .from(entities)
+        .where(eq(entities.syncStatus, 'synced'));
+
+      for (const row of rows) {
+        if (!this.isInScope(rowToEntity(row))) {
+          await this.evictEntity(row.id);
+        }
+      }
+    }
+
+    // A device that never synced starts from scratch anyway
+    if (previous !== null) {
+      await this.setLastSyncVersion('');
+    }
+    await this.setMeta(SYNC_SCOPE_KEY, scope);
+  }
+
+  /**
+   * Delete an entity removed on another device. Deletes win over local
+   * edits, including unpushed ones and open conflicts.
+   */
+  private async applyRemoteTombstone(tombstone: Tombstone): Promise<void> {
+    const db = this.client.getDb();
+
+    this.receiveVersion(tombstone.syncVersion);
+
+    const deleted = await db.transaction(async (tx) => {
+      await tx
+        .delete(tombstones)
+        .where(eq(tombstones.entityId, tombstone.entityId));
+
+      return tx
+        .delete(entities)
+        .where(eq(entities.id, tombstone.entityId))
+        .returning();
+    });
+
+    await this.resolveLoggedChanges(tombstone.entityId);
+    await this.resolveConflictRecords(tombstone.entityId);
+
+    if (deleted.length > 0) {
+      this.emit(
+        'entity:deleted',
+        { id: tombstone.entityId, entity: rowToEntity(deleted[0]) },
+        'remote'
+      );
+    }
+  }
+
+  /**
+   * Reconcile a remote version with a concurrent local edit. A clean
+   * three-way merge always wins; otherwise the configured policy decides.
+   */
+  private async handleConflict(
+    remote: Entity,
+    base: Entity | null
+  ): Promise<void> {
+    this.receiveVersion(remote.syncVersion);
+
+    const local = await this.getLocalEntity(remote.id);
+    if (!local) {
+      await this.writeRemoteEntity(remote, true);
+      return;
+    }
+
+    const attempt = base ? mergeEntities(base, local, remote) : null;
+
+    if (attempt && attempt.unresolved.length === 0) {
+      const merged = await this.writeMergedEntity(attempt.entity, remote);
+      await this.resolveConflictRecords(remote.id);
+      this.emit('entity:updated', merged, 'remote');
+      return;
+    }
+
+    switch (this.config.conflictResolution) {
+      case 'remote-wins':
+        if (base) {
+          const attempt = mergeEntities(base, local, remote, { prefer: 'remote' });
+          const merged = await this.writeMergedEntity(attempt.entity, remote);
+          this.emit('entity:updated', merged, 'remote');
+        } else {
+          await this.writeRemoteEntity(remote, true);
+        }
+        await this.resolveConflictRecords(remote.id);
+        break;
+      case 'local-wins': {
+        // Rebase the local edit on the remote version so the next push wins
+        if (base) {
+          const attempt = mergeEntities(base, local, remote, { prefer: 'local' });
+          const merged = await this.writeMergedEntity(attempt.entity, remote);
+          this.emit('entity:updated', merged, 'remote');
+        } else {
+          await this.writeMergedEntity(local, remote);
+        }
+        await this.resolveConflictRecords(remote.id);
+        break;
+      }
+      case 'manual':
+        await this.recordConflict({
+          base,
+          local,
+          remote,
+          merged: attempt?.entity ?? null,
+          unresolved: attempt?.unresolved ?? [],
+        });
+        break;
+    }
+  }
+
+  /**
+   * Store a locally reconciled version, based on `remote`, to be pushed
+   * on the next sync
+   */
+  private async writeMergedEntity(entity: Entity, remote: Entity): Promise<Entity> {
+    const db = this.client.getDb();
+
+    const merged = {
+      ...entity,
+      updatedAt: new Date(),
+      syncVersion: this.clock.tick(),
+    } as Entity;
+
+    const { id: _id, ...fields } = {
+      ...entityToRow(merged, this.client.getQuantization()?.type),
+      embeddingStatus: getEmbeddingStatus(merged, false),
+      embeddingModel: null,
+      embeddingDimensions: null,
+      syncStatus: 'pending',
+      baseVersion: remote.syncVersion ?? null,
+    };
+
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(entities)
+        .values({ id: merged.id, ...fields })
+        .onConflictDoUpdate({ target: entities.id, set: fields });
+
+      // Chunks are computed locally; the merged content may no longer match
+      await tx.delete(entityChunks).where(eq(entityChunks.entityId, merged.id));
+
+      await tx.insert(syncLog).values({
+        entityId: merged.id,
+        operation: 'update',
+        payload: merged,
+        clientId: this.clientId,
+      });
+    });
+
+    return merged;
+  }
+
+  private async writeRemoteEntity(
+    entity: Entity,
+    replacesLocalEdits: boolean
+  ): Promise<void> {
+    const db = this.client.getDb();
+
+    const [existing] = await db
+      .select({ id: entities.id, title: entities.title, content: entities.content })
+      .from(entities)
+      .where(eq(entities.id, entity.id))
+      .limit(1);
+    const textChanged =
+      !existing || existing.title !== entity.title || existing.content !== entity.content;
+
+    // Embeddings are derived locally. Unchanged text keeps the local one;
+    // otherwise the pushed one stands in, flagged stale, until re-indexed.
+    const { id: _id, embedding, embeddingCode, ...row } = entityToRow(
+      entity,
+      this.client.getQuantization()?.type
+    );
+    const fields = {
+      ...row,
+      ...(textChanged && {
+        embedding,
+        embeddingCode,
+        embeddingStatus: getEmbeddingStatus(entity, false),
+        embeddingModel: null,
+        embeddingDimensions: null,
+      }),
+      syncStatus: 'synced',
+      baseVersion: entity.syncVersion ?? null,
+    };
+
+    await db
+      .insert(entities)
+      .values({ id: entity.id, embedding, embeddingCode, ...fields })
+      .onConflictDoUpdate({ target: entities.id, set: fields });
+
+    // Chunks are not synced either; stale ones would highlight text that
+    // is gone
+    if (existing && textChanged) {
+      await db.delete(entityChunks).where(eq(entityChunks.entityId, entity.id));
+    }
+
+    // The remote version replaced any local edits still waiting to be pushed
+    if (replacesLocalEdits) {
+      await this.resolveLoggedChanges(entity.id);
+    }
+
+    this.emit(existing ? 'entity:updated' : 'entity:created', entity, 'remote');
+  }
+
+  private async resolveLoggedChanges(entityId: string): Promise<void> {
+    const db = this.client.getDb();
+
+    await db
+      .update(syncLog)
+      .set({ resolved: new Date() })
+      .where(
+        and(eq(syncLog.entityId, entityId), queuedChange)
+      );
+  }
+
+  private async recordConflict(record: ConflictRecord): Promise<void> {
+    const db = this.client.getDb();
+    const entityId = record.remote.id;
+
+    await db
+      .update(entities)
+      .set({ syncStatus: 'conflict' })
+      .where(eq(entities.id, entityId));
+
+    // Only the latest remote version of a conflict is kept
+    await this.resolveConflictRecords(entityId);
+
+    await db.insert(syncLog).values({
+      entityId,
+      operation: 'conflict',
+      payload: record,
+      clientId: this.clientId,
+    });
+
+    this.emit('sync:conflict', {
+      entityId,
+      unresolvedFields: record.unresolved,
+    });
+  }
+
+  private async resolveConflictRecords(entityId: string): Promise<void> {
+    const db = this.client.getDb();
+
+    await db
+      .update(syncLog)
+      .set({ resolved: new Date() })
+      .where(
+        and(
+          eq(syncLog.entityId, entityId),
+          eq(syncLog.operation, 'conflict'),
+          isNull(syncLog.resolved)
+        )
+      );
+  }
+
+  /**
+   * Merge a remote HLC into the local clock. A version too far ahead (a
+   * device with a fast clock) is not merged, but the change still applies:
+   * throwing here would stop every pull at that change for good.
+   */
+  private receiveVersion(version: string | undefined): void {
+    if (!version) return;
+
+    try {
+      this.clock.receive(version);
+    } catch (error) {
+      console.warn('Ignoring remote clock:', error);
+    }
+  }
+
+  private async getLocalEntity(entityId: string): Promise<Entity | null> {
+    const db = this.client.getDb();
+
+    const [row] = await db
+      .select()
+      .from(entities)
+      .where(eq(entities.id, entityId))
+      .limit(1);
+
+    return row ? rowToEntity(row) : null;
+  }
+
+  private async getLastSyncVersion(): Promise<string> {
+    return (await this.getMeta(LAST_SYNC_VERSION_KEY)) ?? '';
+  }
+
+  private async setLastSyncVersion(version: string): Promise<void> {
+    await this.setMeta(LAST_SYNC_VERSION_KEY, version);
+  }
+
+  private async getMeta(key: string): Promise<string | null> {
+    const db = this.client.getDb();
+
+    const [row] = await db
+      .select({ value: syncMeta.value })
+      .from(syncMeta)
+      .where(eq(syncMeta.key, key))
+      .limit(1);
+
+    return row?.value ?? null;
+  }
+
+  private async setMeta(key: string, value: string): Promise<void> {
+    const db = this.client.getDb();
+
+    await db
+      .insert(syncMeta)
+      .values({ key, value })
+      .onConflictDoUpdate({ target: syncMeta.key, set: { value } });
+  }
+
+  private async encode(entity: Entity): Promise<SyncEntity> {
+    return this.encryption ? this.encryption.encryptEntity(entity) : entity;
+  }
+
+  private async decode(entity: SyncEntity): Promise<Entity> {
+    if (this.encryption) {
+      return reviveEntity(await this.encryption.decryptEntity(entity));
+    }
+
+    if (entity.envelope) {
+      throw new Error(
+        `Entity ${entity.id} is encrypted but no encryption key is configured`
+      );
+    }
+    return reviveEntity(entity);
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const baseUrl = this.config.serverUrl!.replace(/\/+$/, '');
+    const send = async () =>
+      this.fetchServer(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(await this.getAuthHeaders()),
+          ...init?.headers,
+        },
+      });
+
+    let response = await send();
+
+    // The access token may have been rejected early, e.g. after a server
+    // secret rotation: get a new one and try once more
+    if (response.status === 401 && this.accessToken) {
+      this.accessToken = null;
+      response = await send();
+    }
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Sync request ${path} failed (${response.status}): ${error}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+
+  /**
+   * Send a request to the sync server. Failing to reach it (offline, DNS,
+   * refused connection) throws a NetworkError.
+   */
+  private async fetchServer(url: string, init: RequestInit): Promise<Response> {
+    try {
+      return await this.fetchFn(url, init);
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new NetworkError(
+        `Sync server unreachable: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * Authorization header for sync requests, exchanging the API key for a
+   * fresh access token when needed
+   */
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    if (!this.apiKey) return {};
+
+    if (
+      !this.accessToken ||
+      this.accessToken.expiresAt - TOKEN_REFRESH_MARGIN <= Date.now()
+    ) {
+      const baseUrl = this.config.serverUrl!.replace(/\/+$/, '');
+      const response = await this.fetchServer(`${baseUrl}/api/auth/token`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.apiKey}` },
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Sync authentication failed (${response.status}): ${error}`);
+      }
+
+      this.accessToken = (await response.json()) as AccessToken;
+    }
+
+    return { Authorization: `Bearer ${this.accessToken.token}` };
+  }
+
+  private async getQueueDepth(): Promise<number> {
+    const db = this.client.getDb();
+
+    const [row] = await db
+      .select({ count: countDistinct(syncLog.entityId) })
+      .from(syncLog)
+      .where(queuedChange);
+
+    return Number(row?.count ?? 0);
   }
 
   private async getConflictCount(): Promise<number> {
     const result = await this.client.execute(`
-      SELECT COUNT(*) as count FROM sync_log WHERE resolved IS NULL
+      SELECT COUNT(*) as count FROM sync_log
+      WHERE operation = 'conflict' AND resolved IS NULL
     `);
     return Number((result.rows[0] as { count: number })?.count ?? 0);
   }
 }
 
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+interface EventStreamMessage {
+  event: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Parse a server-sent event stream, calling `onMessage` for each event
+ */
+async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onMessage: (message: EventStreamMessage) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n');
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const message: EventStreamMessage = { event: 'message', data: '' };
+      const data: string[] = [];
+
+      for (const line of block.split('\n')) {
+        // Lines starting with ':' are comments (e.g. heartbeats)
+        if (!line || line.startsWith(':')) continue;
+
+        const colon = line.indexOf(':');
+        const field = colon < 0 ? line : line.slice(0, colon);
+        const fieldValue = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        if (field === 'event') message.event = fieldValue;
+        else if (field === 'data') data.push(fieldValue);
+        else if (field === 'id') message.id = fieldValue;
+      }
+
+      if (data.length > 0) {
+        onMessage({ ...message, data: data.join('\n') });
+      }
+    }
+  }
+}
+
+function isNavigatorOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Restore Date fields of an entity received as JSON
+ */
+function reviveEntity(entity: Entity): Entity {
+  return {
+    ...entity,
+    createdAt: new Date(entity.createdAt),
+    updatedAt: new Date(entity.updatedAt),
+  };
+}
+
 // -----------------------------------------------------------------------------
 // Factory Function
 // -----------------------------------------------------------------------------
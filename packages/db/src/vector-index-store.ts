@@ -0,0 +1,46 @@
+// =============================================================================
+// PGlite Vector Index Store - Persists VectorIndex snapshots from @unimem/core
+// =============================================================================
+
+import { eq } from 'drizzle-orm';
+import type { VectorIndexStore } from '@unimem/core';
+import type { DatabaseClient } from './client';
+import { vectorIndexes } from './schema';
+
+/**
+ * Keeps a vector index's snapshot in the database it indexes, so both are
+ * stored (and cleared) together
+ */
+export class PGliteVectorIndexStore implements VectorIndexStore {
+  private client: DatabaseClient;
+  private name: string;
+
+  constructor(client: DatabaseClient, name = 'entities') {
+    this.client = client;
+    this.name = name;
+  }
+
+  async load(): Promise<string | null> {
+    const db = this.client.getDb();
+
+    const rows = await db
+      .select({ data: vectorIndexes.data })
+      .from(vectorIndexes)
+      .where(eq(vectorIndexes.name, this.name))
+      .limit(1);
+
+    return rows[0]?.data ?? null;
+  }
+
+  async save(data: string): Promise<void> {
+    const db = this.client.getDb();
+
+    await db
+      .insert(vectorIndexes)
+      .values({ name: this.name, data, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: vectorIndexes.name,
+        set: { data, updatedAt: new Date() },
+      });
+  }
+}
@@ -70,6 +70,9 @@ export interface BaseEntity {
 
   // Memory layer assignment
   memoryLayer: MemoryLayerType;
+
+  // Hybrid logical clock timestamp of the last mutation
+  syncVersion?: string;
 }
 
 export interface EntityLink {
@@ -136,6 +139,7 @@ export type Entity = DailyNote | Person | Company | Project | Task | Area | Reso
 
 export interface VectorQuery {
   embedding: number[];
+  model?: string; // model of the query embedding; vectors of other models are skipped
   limit?: number;
   threshold?: number; // Minimum similarity score
   filter?: EntityFilter;
@@ -154,7 +158,32 @@ export interface EntityFilter {
 export interface SearchResult<T extends Entity = Entity> {
   entity: T;
   score: number;
-  highlights?: string[];
+  highlights?: string[]; // best-matching chunk of a chunked entity
+}
+
+/**
+ * Whether an entity's stored embedding matches its current content.
+ * Tracked per device: embeddings are derived data and may lag writes.
+ */
+export type EmbeddingStatus = 'indexed' | 'missing' | 'stale';
+
+/**
+ * Model and output size an embedding was computed with
+ */
+export interface EmbeddingModel {
+  model: string;
+  dimensions: number;
+}
+
+/**
+ * Passage of a long entity's content, embedded on its own so search can
+ * match part of a note
+ */
+export interface EntityChunk {
+  entityId: string;
+  index: number; // position within the entity
+  text: string;
+  embedding: number[];
 }
 
 export interface SearchResponse<T extends Entity = Entity> {
@@ -162,6 +191,7 @@ export interface SearchResponse<T extends Entity = Entity> {
   total: number;
   query: string;
   took: number; // milliseconds
+  skipped?: number; // matching entities left out because their embedding is from another model
 }
 
 // -----------------------------------------------------------------------------
@@ -172,8 +202,9 @@ export type SyncStatus = 'synced' | 'pending' | 'conflict' | 'error';
 
 export interface SyncState {
   status: SyncStatus;
+  online: boolean;        // Whether the sync server was reachable on the last attempt
   lastSyncedAt?: Date;
-  pendingChanges: number;
+  pendingChanges: number; // Entities queued in sync_log, waiting to be pushed
   conflictCount: number;
 }
 
@@ -181,6 +212,9 @@ export interface SyncConflict {
   entityId: string;
   localVersion: Entity;
   remoteVersion: Entity;
+  baseVersion?: Entity;    // Common ancestor, when the server still has it
+  mergedVersion?: Entity;  // Best-effort merge, with conflict markers in content
+  unresolvedFields?: string[];
   resolvedAt?: Date;
   resolution?: 'local' | 'remote' | 'merged';
 }
@@ -190,6 +224,71 @@ export interface ReplicationConfig {
   serverUrl?: string;
   syncInterval: number; // milliseconds
   conflictResolution: 'local-wins' | 'remote-wins' | 'manual';
+  live?: boolean; // Subscribe to the server's change stream, polling only as a fallback (default true)
+  scope?: EntityFilter; // Entities this device carries (everything when omitted)
+}
+
+// -----------------------------------------------------------------------------
+// Sync Protocol Types (client <-> sync server)
+// -----------------------------------------------------------------------------
+
+/**
+ * End-to-end encrypted entity fields. Only clients holding the key can read them.
+ */
+export interface EncryptedEnvelope {
+  version: number; // envelope format version
+  keyId: string;   // key that encrypted the data, for rotation
+  salt: string;    // PBKDF2 salt the key was derived with
+  iv: string;      // base64
+  data: string;    // base64 ciphertext
+}
+
+/**
+ * Entity as exchanged with the sync server. When encryption is enabled,
+ * private fields are blanked and carried in `envelope` instead.
+ */
+export type SyncEntity = Entity & { envelope?: EncryptedEnvelope };
+
+/**
+ * Record of a deleted entity, kept so the delete reaches every device.
+ * Deletes win over concurrent edits.
+ */
+export interface Tombstone {
+  entityId: string;
+  entityType: EntityType;
+  syncVersion?: string; // HLC of the delete
+  deletedAt: Date;
+}
+
+export interface PushPayload {
+  clientId: string;
+  entities: SyncEntity[];
+  tombstones?: Tombstone[];
+  baseVersions: Record<string, string>; // entityId -> HLC the edit was based on
+  lastSyncVersion: string;
+}
+
+export interface PushResponse {
+  success: boolean;
+  syncVersion: string;
+  applied: Array<{
+    entityId: string;
+    syncVersion: string;
+  }>;
+  conflicts: Array<{
+    entityId: string;
+    serverVersion: SyncEntity;
+    baseVersion?: SyncEntity; // Version the rejected edit was based on
+  }>;
+  tombstones: Tombstone[]; // Edits rejected because the entity was deleted
+}
+
+export interface PullResponse {
+  entities: SyncEntity[];
+  tombstones: Tombstone[];
+  evicted: string[]; // Changed entities that are now outside the requested scope
+  syncVersion: string;
+  hasMore: boolean;
 }
 
 // -----------------------------------------------------------------------------
@@ -209,6 +308,14 @@ export interface MemoryStats {
   byType: Record<EntityType, number>;
   storageSize: number; // bytes
   vectorCount: number;
+  embeddingStatus: Record<EmbeddingStatus, number>;
+  embeddingStorage: EmbeddingStorageStats;
+}
+
+export interface EmbeddingStorageStats {
+  quantization: 'int8' | 'binary' | null; // null when stored at full precision
+  size: number;  // bytes of entity and chunk embeddings
+  saved: number; // bytes saved by quantization, against float32 vectors
 }
 
 // -----------------------------------------------------------------------------
@@ -243,11 +350,15 @@ export type MemoryEventType =
   | 'entity:created'
   | 'entity:updated'
   | 'entity:deleted'
+  | 'entity:embedded'
   | 'sync:started'
   | 'sync:completed'
   | 'sync:conflict'
   | 'consolidation:started'
-  | 'consolidation:completed';
+  | 'consolidation:completed'
+  | 'indexing:progress'
+  | 'indexing:failed'
+  | 'indexing:model-changed';
 
 export interface MemoryEvent<T = unknown> {
   type: MemoryEventType;